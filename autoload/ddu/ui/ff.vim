@@ -5,11 +5,11 @@ function! ddu#ui#ff#do_action(name, ...) abort
     return
   endif
 
-  if &l:filetype ==# 'ddu-ff' || !exists('g:ddu#ui#ff#_filter_parent_winid')
+  let winid = s:filter_parent_winid()
+  if winid < 0
     let b:ddu_ui_ff_cursor_pos = getcurpos()
     let b:ddu_ui_ff_cursor_text = getline('.')
   else
-    let winid = g:ddu#ui#ff#_filter_parent_winid
     call win_execute(winid, 'let b:ddu_ui_ff_cursor_pos = getcurpos()')
     call win_execute(winid, 'let b:ddu_ui_ff_cursor_text = getline(".")')
   endif
@@ -26,12 +26,34 @@ function! ddu#ui#ff#multi_actions(actions) abort
   endfor
 endfunction
 
+function! ddu#ui#ff#get_item(...) abort
+  let name = get(a:000, 0, get(b:, 'ddu_ui_name', ''))
+  let bufnr = s:ui_bufnr_by_name(name)
+  if bufnr < 0
+    return {}
+  endif
+
+  call ddu#ui_action(name, 'getItem', {})
+  return getbufvar(bufnr, 'ddu_ui_item', {})
+endfunction
+
+function! ddu#ui#ff#get_selected_items(...) abort
+  let name = get(a:000, 0, get(b:, 'ddu_ui_name', ''))
+  let bufnr = s:ui_bufnr_by_name(name)
+  if bufnr < 0
+    return []
+  endif
+
+  call ddu#ui_action(name, 'getSelectedItems', {})
+  return getbufvar(bufnr, 'ddu_ui_selected_items', [])
+endfunction
+
 function! ddu#ui#ff#execute(command) abort
-  if !exists('g:ddu#ui#ff#_filter_parent_winid')
+  let winid = s:filter_parent_winid()
+  if winid < 0
     return
   endif
 
-  let winid = g:ddu#ui#ff#_filter_parent_winid
   let prev_curpos = s:getcurpos(winid)
 
   call win_execute(winid, a:command)
@@ -43,16 +65,18 @@ function! ddu#ui#ff#execute(command) abort
 endfunction
 
 function! ddu#ui#ff#close() abort
+  let winid = s:filter_parent_winid()
+
   close
 
-  if exists('g:ddu#ui#ff#_filter_parent_winid')
+  if winid > 0
     " Move to parent window
-    call win_gotoid(g:ddu#ui#ff#_filter_parent_winid)
+    call win_gotoid(winid)
   endif
 endfunction
 
 function! ddu#ui#ff#_update_buffer(params, bufnr, lines, refreshed, pos) abort
-  if a:refreshed && !empty(s:auto_action)
+  if a:refreshed && !empty(getbufvar(a:bufnr, 'ddu_ui_ff_auto_action', {}))
     let prev_cursor_line = get(getbufline(
           \ a:bufnr, s:getcurpos(bufwinid(a:bufnr))[1]), 0, '')
   endif
@@ -66,12 +90,13 @@ function! ddu#ui#ff#_update_buffer(params, bufnr, lines, refreshed, pos) abort
   call setbufvar(a:bufnr, '&modifiable', 0)
   call setbufvar(a:bufnr, '&modified', 0)
 
+  let winid = bufwinid(a:bufnr)
   if !a:refreshed
+    call s:skip_header(a:bufnr, winid)
     return
   endif
 
   " Init the cursor
-  let winid = bufwinid(a:bufnr)
   let curpos = s:getcurpos(winid)
   let lnum = a:params.reversed ? max_lines - a:pos : a:pos + 1
   if curpos[1] != lnum
@@ -80,8 +105,57 @@ function! ddu#ui#ff#_update_buffer(params, bufnr, lines, refreshed, pos) abort
   elseif a:params.reversed
     call win_execute(winid, 'normal! zb')
   endif
+  call s:skip_header(a:bufnr, winid)
 endfunction
 
+function! ddu#ui#ff#_update_headers(bufnr, rows) abort
+  call setbufvar(a:bufnr, 'ddu_ui_ff_header_rows', a:rows)
+
+  augroup ddu-ui-ff-header
+    execute 'autocmd! CursorMoved <buffer=' . a:bufnr . '>'
+    if !empty(a:rows)
+      execute 'autocmd CursorMoved <buffer=' . a:bufnr . '>'
+            \ 'call ddu#ui#ff#_skip_header()'
+    endif
+  augroup END
+endfunction
+function! ddu#ui#ff#_skip_header() abort
+  call s:skip_header(bufnr('%'), win_getid())
+endfunction
+function! s:skip_header(bufnr, winid) abort
+  let rows = getbufvar(a:bufnr, 'ddu_ui_ff_header_rows', [])
+  if a:winid < 0 || empty(rows)
+    return
+  endif
+
+  let lnum = s:getcurpos(a:winid)[1]
+  let prev_lnum = getbufvar(a:bufnr, 'ddu_ui_ff_prev_lnum', 0)
+  if index(rows, lnum) >= 0
+    " Move to the next item in the moved direction
+    let max_lines = len(getbufline(a:bufnr, 1, '$'))
+    let new_lnum = -1
+    for direction in (lnum < prev_lnum ? [-1, 1] : [1, -1])
+      let new_lnum = lnum
+      while index(rows, new_lnum) >= 0
+        let new_lnum += direction
+      endwhile
+      if new_lnum >= 1 && new_lnum <= max_lines
+        break
+      endif
+      let new_lnum = -1
+    endfor
+
+    if new_lnum > 0
+      call win_execute(a:winid, printf('call cursor(%d, 0)', new_lnum))
+      let lnum = new_lnum
+    endif
+  endif
+
+  call setbufvar(a:bufnr, 'ddu_ui_ff_prev_lnum', lnum)
+endfunction
+
+let s:selected_sign_group = 'ddu-ui-ff-selected'
+let s:selected_sign_name = 'ddu_ui_ff_selected'
 function! ddu#ui#ff#_highlight_items(
       \ params, bufnr, max_lines, highlight_items, selected_items) abort
   " Clear all highlights
@@ -92,24 +166,43 @@ function! ddu#ui#ff#_highlight_items(
   endif
 
   " Highlights items
+  " NOTE: The highlight col is byte index.  The prefix may contain multibyte
+  " characters like the tree icons.  So the prefix width must be len().
   for item in a:highlight_items
     for hl in item.highlights
       call ddu#ui#ff#_highlight(
             \ hl.hl_group, hl.name, 1,
             \ s:namespace, a:bufnr,
             \ a:params.reversed ? a:max_lines - item.row + 1 : item.row,
-            \ hl.col + strwidth(item.prefix), hl.width)
+            \ hl.col + len(item.prefix), hl.width)
     endfor
   endfor
 
   " Selected items highlights
   let selected_highlight = get(a:params.highlights, 'selected', 'Statement')
-  for item_nr in a:selected_items
+  let selected_rows = map(copy(a:selected_items), { _, val ->
+        \ a:params.reversed ? a:max_lines - val : val + 1 })
+  for row in selected_rows
     call ddu#ui#ff#_highlight(
           \ selected_highlight, 'ddu-ui-selected', 10000,
-          \ s:namespace, a:bufnr, item_nr + 1, 1, 1000)
+          \ s:namespace, a:bufnr, row, 1, 1000)
   endfor
 
+  " Selected items markers
+  call sign_unplace(s:selected_sign_group, { 'buffer': a:bufnr })
+  if a:params.selectedMarker !=# ''
+    call sign_define(s:selected_sign_name, {
+          \ 'text': a:params.selectedMarker,
+          \ 'texthl': selected_highlight,
+          \ })
+    call sign_placelist(map(selected_rows, { _, val -> {
+          \ 'buffer': a:bufnr,
+          \ 'group': s:selected_sign_group,
+          \ 'name': s:selected_sign_name,
+          \ 'lnum': val,
+          \ }}))
+  endif
+
   if !has('nvim')
     " NOTE: :redraw is needed for Vim
     redraw
@@ -148,21 +241,27 @@ function! ddu#ui#ff#_highlight(
 endfunction
 
 function! ddu#ui#ff#_open_preview_window(params, bufnr) abort
-  let preview_width = a:params.previewWidth
-  let preview_height = a:params.previewHeight
+  if a:params.previewLayout !=# ''
+    call s:open_preview_layout(a:params, a:bufnr)
+    return
+  endif
+
+  let params = s:eval_preview_params(a:params)
+  let preview_width = params.previewWidth
+  let preview_height = params.previewHeight
   let pos = win_screenpos(bufwinid(a:bufnr))
   let win_width = winwidth(0)
   let win_height = winheight(0)
 
-  if a:params.previewVertical
+  if params.previewVertical
     silent rightbelow vnew
 
-    if a:params.previewFloating && exists('*nvim_win_set_config')
-      if a:params.split ==# 'floating'
-        let win_row = a:params.previewRow > 0 ?
-              \ a:params.previewRow : a:params.winRow
-        let win_col = a:params.previewCol > 0 ?
-              \ a:params.previewCol : a:params.winCol
+    if params.previewFloating && exists('*nvim_win_set_config')
+      if params.split ==# 'floating'
+        let win_row = params.previewRow > 0 ?
+              \ params.previewRow : params.winRow
+        let win_col = params.previewCol > 0 ?
+              \ params.previewCol : params.winCol
       else
         let win_row = pos[0] - 1
         let win_col = pos[1] - 1
@@ -178,8 +277,8 @@ function! ddu#ui#ff#_open_preview_window(params, bufnr) abort
             \ 'col': win_col,
             \ 'width': preview_width,
             \ 'height': preview_height,
-            \ 'border': a:params.previewFloatingBorder,
-            \ 'zindex': a:params.previewFloatingZindex,
+            \ 'border': params.previewFloatingBorder,
+            \ 'zindex': params.previewFloatingZindex,
             \ })
     else
       execute 'vert resize ' . preview_width
@@ -187,12 +286,12 @@ function! ddu#ui#ff#_open_preview_window(params, bufnr) abort
   else
     silent aboveleft new
 
-    if a:params.previewFloating && exists('*nvim_win_set_config')
-      let win_row = a:params.previewRow > 0 ?
-              \ a:params.previewRow : pos[0] - 1
-      let win_col = a:params.previewCol > 0 ?
-              \ a:params.previewCol : pos[1] - 1
-      if a:params.previewRow <= 0 && win_row <= preview_height
+    if params.previewFloating && exists('*nvim_win_set_config')
+      let win_row = params.previewRow > 0 ?
+              \ params.previewRow : pos[0] - 1
+      let win_col = params.previewCol > 0 ?
+              \ params.previewCol : pos[1] - 1
+      if params.previewRow <= 0 && win_row <= preview_height
         let win_row += win_height + 1
         let anchor = 'NW'
       else
@@ -206,8 +305,8 @@ function! ddu#ui#ff#_open_preview_window(params, bufnr) abort
             \ 'col': win_col,
             \ 'width': preview_width,
             \ 'height': preview_height,
-            \ 'border': a:params.previewFloatingBorder,
-            \ 'zindex': a:params.previewFloatingZindex,
+            \ 'border': params.previewFloatingBorder,
+            \ 'zindex': params.previewFloatingZindex,
             \ })
     else
       execute 'resize ' . preview_height
@@ -215,6 +314,278 @@ function! ddu#ui#ff#_open_preview_window(params, bufnr) abort
   endif
 endfunction
 
+let s:preview_layouts = {}
+function! s:open_preview_layout(params, bufnr) abort
+  let floating = a:params.previewFloating && exists('*nvim_win_set_config')
+  let layout = s:preview_layout(a:params, a:bufnr, floating, -1, '')
+
+  if floating
+    silent rightbelow vnew
+  else
+    execute 'silent' {
+          \ 'right': 'rightbelow vnew',
+          \ 'left': 'leftabove vnew',
+          \ 'top': 'leftabove new',
+          \ 'bottom': 'rightbelow new',
+          \ }[layout.layout]
+  endif
+
+  let winid = win_getid()
+  call s:set_preview_layout(a:params, winid, floating, layout)
+
+  let s:preview_layouts[a:bufnr] = {
+        \ 'params': a:params,
+        \ 'winid': winid,
+        \ 'floating': floating,
+        \ 'layout': layout.layout,
+        \ }
+
+  augroup ddu-ui-ff-preview
+    autocmd!
+    autocmd VimResized * call ddu#ui#ff#_relayout_preview_windows()
+  augroup END
+endfunction
+function! ddu#ui#ff#_relayout_preview_windows() abort
+  for [bufnr, state] in items(s:preview_layouts)
+    if win_id2win(state.winid) <= 0 || bufwinid(str2nr(bufnr)) < 0
+      call remove(s:preview_layouts, bufnr)
+      continue
+    endif
+
+    " NOTE: The split layout cannot be changed after the window is opened.
+    let layout = s:preview_layout(
+          \ state.params, str2nr(bufnr), state.floating, state.winid,
+          \ state.floating ? '' : state.layout)
+    call s:set_preview_layout(state.params, state.winid, state.floating, layout)
+  endfor
+
+  if empty(s:preview_layouts)
+    augroup ddu-ui-ff-preview
+      autocmd!
+    augroup END
+  endif
+endfunction
+function! s:eval_preview_params(params) abort
+  let lines = &lines - &cmdheight
+  return extend(copy(a:params), {
+        \ 'previewWidth': ddu#ui#ff#_eval_size(a:params.previewWidth, &columns),
+        \ 'previewHeight': ddu#ui#ff#_eval_size(a:params.previewHeight, lines),
+        \ 'previewRow': ddu#ui#ff#_eval_size(a:params.previewRow, lines),
+        \ 'previewCol': ddu#ui#ff#_eval_size(a:params.previewCol, &columns),
+        \ })
+endfunction
+function! s:set_preview_layout(params, winid, floating, layout) abort
+  if a:floating
+    call nvim_win_set_config(a:winid, {
+          \ 'relative': 'editor',
+          \ 'row': a:layout.row,
+          \ 'col': a:layout.col,
+          \ 'width': a:layout.width,
+          \ 'height': a:layout.height,
+          \ 'border': a:params.previewFloatingBorder,
+          \ 'zindex': a:params.previewFloatingZindex,
+          \ })
+  elseif a:layout.layout ==# 'right' || a:layout.layout ==# 'left'
+    call win_execute(a:winid, 'vertical resize ' . a:layout.width)
+  else
+    call win_execute(a:winid, 'resize ' . a:layout.height)
+  endif
+endfunction
+function! s:preview_layout(params, bufnr, floating, preview_winid, layout) abort
+  let params = s:eval_preview_params(a:params)
+  let winid = bufwinid(a:bufnr)
+  let [row, col] = win_screenpos(winid)
+  let width = winwidth(winid)
+  let height = winheight(winid)
+  let layout = a:layout !=# '' ? a:layout : params.previewLayout
+
+  if !a:floating
+    " The preview window is split from the list window.
+    if a:preview_winid > 0
+      if layout ==# 'right' || layout ==# 'left'
+        let width += winwidth(a:preview_winid) + 1
+      else
+        let height += winheight(a:preview_winid) + 1
+      endif
+    endif
+    if layout ==# 'auto'
+      let layout = width >= params.previewWidth * 2 ? 'right' : 'bottom'
+    endif
+
+    return {
+          \ 'layout': layout,
+          \ 'row': 0,
+          \ 'col': 0,
+          \ 'width': max([1, min([params.previewWidth, width / 2])]),
+          \ 'height': max([1, min([params.previewHeight, height / 2])]),
+          \ }
+  endif
+
+  " Include the border of the list window
+  if params.split ==# 'floating' && s:has_border(params.floatingBorder)
+    let row -= 1
+    let col -= 1
+    let width += 2
+    let height += 2
+  endif
+
+  let border = s:has_border(params.previewFloatingBorder) ? 2 : 0
+  let lines = &lines - &cmdheight
+  let space = {
+        \ 'right': &columns - (col - 1 + width) - border,
+        \ 'left': col - 1 - border,
+        \ 'top': row - 1 - border,
+        \ 'bottom': lines - (row - 1 + height) - border,
+        \ }
+
+  if layout ==# 'auto'
+    let horizontal = space.right >= space.left ? 'right' : 'left'
+    let vertical = space.bottom >= space.top ? 'bottom' : 'top'
+    if space[horizontal] >= params.previewWidth
+      let layout = horizontal
+    elseif space[vertical] >= params.previewHeight
+      let layout = vertical
+    else
+      " Use the larger space
+      let horizontal_area = space[horizontal]
+            \ * min([params.previewHeight, lines - border])
+      let vertical_area = space[vertical]
+            \ * min([params.previewWidth, &columns - border])
+      let layout = horizontal_area >= vertical_area ? horizontal : vertical
+    endif
+  endif
+
+  if layout ==# 'right' || layout ==# 'left'
+    let preview_width = max([1, min([params.previewWidth, space[layout]])])
+    let preview_height = max([1,
+          \ min([params.previewHeight, lines - border])])
+    let win_row = row - 1
+    let win_col = layout ==# 'right' ?
+          \ col - 1 + width : col - 1 - preview_width - border
+  else
+    let preview_width = max([1,
+          \ min([params.previewWidth, &columns - border])])
+    let preview_height = max([1,
+          \ min([params.previewHeight, space[layout]])])
+    let win_row = layout ==# 'bottom' ?
+          \ row - 1 + height : row - 1 - preview_height - border
+    let win_col = col - 1
+  endif
+
+  " Keep the window in the screen
+  let win_row = max([0, min([win_row, lines - preview_height - border])])
+  let win_col = max([0, min([win_col, &columns - preview_width - border])])
+
+  return {
+        \ 'layout': layout,
+        \ 'row': win_row,
+        \ 'col': win_col,
+        \ 'width': preview_width,
+        \ 'height': preview_height,
+        \ }
+endfunction
+function! s:has_border(border) abort
+  return type(a:border) != v:t_string
+        \ || (a:border !=# '' && a:border !=# 'none')
+endfunction
+
+function! ddu#ui#ff#_eval_size(value, base) abort
+  if type(a:value) != v:t_string
+    return a:value
+  endif
+
+  " Percentage of the base size
+  let percent = matchstr(a:value, '^\s*\zs\d\+\%(\.\d\+\)\=\ze%\s*$')
+  if percent !=# ''
+    return float2nr(a:base * str2float(percent) / 100)
+  endif
+
+  let value = eval(a:value)
+  return type(value) == v:t_float ? float2nr(value) : value
+endfunction
+
+function! ddu#ui#ff#_open_terminal(cmds, timeout) abort
+  " NOTE: The terminal is opened in the current window
+  let bufnr = bufnr('%')
+  if has('nvim')
+    call termopen(a:cmds, {
+          \ 'on_exit': { _, status, __ ->
+          \   s:terminal_exit(bufnr, a:cmds, status) },
+          \ })
+  else
+    let bufnr = term_start(a:cmds, {
+          \ 'curwin': v:true,
+          \ 'term_kill': 'kill',
+          \ 'exit_cb': { _, status ->
+          \   s:terminal_exit(bufnr, a:cmds, status) },
+          \ })
+  endif
+
+  if a:timeout > 0
+    call timer_start(a:timeout, { -> s:terminal_timeout(bufnr, a:cmds) })
+  endif
+
+  return bufnr
+endfunction
+function! ddu#ui#ff#_stop_terminal(bufnr) abort
+  if !bufexists(a:bufnr)
+    return
+  endif
+
+  call setbufvar(a:bufnr, 'ddu_ui_ff_terminal_stopped', v:true)
+
+  if has('nvim')
+    let job = getbufvar(a:bufnr, '&channel')
+    if job > 0
+      call jobstop(job)
+    endif
+  else
+    let job = term_getjob(a:bufnr)
+    if job isnot v:null && job_status(job) ==# 'run'
+      call job_stop(job, 'kill')
+    endif
+  endif
+endfunction
+function! s:terminal_timeout(bufnr, cmds) abort
+  if !bufexists(a:bufnr)
+        \ || getbufvar(a:bufnr, 'ddu_ui_ff_terminal_stopped', v:false)
+    return
+  endif
+
+  call ddu#ui#ff#_stop_terminal(a:bufnr)
+  call ddu#util#print_error(
+        \ printf('Preview command timed out: %s', join(a:cmds)))
+endfunction
+function! s:terminal_exit(bufnr, cmds, status) abort
+  if a:status == 0
+        \ || getbufvar(a:bufnr, 'ddu_ui_ff_terminal_stopped', v:false)
+    return
+  endif
+
+  call ddu#util#print_error(printf(
+        \ 'Preview command failed with exit status %d: %s',
+        \ a:status, join(a:cmds)))
+endfunction
+
+function! s:filter_parent_winid() abort
+  " NOTE: The parent window is saved in the filter buffer
+  return &l:filetype ==# 'ddu-ff-filter' ?
+        \ get(b:, 'ddu_ui_ff_filter_parent_winid', -1) : -1
+endfunction
+function! s:ui_bufnr() abort
+  let winid = s:filter_parent_winid()
+  return winid < 0 ? bufnr('%') : winbufnr(winid)
+endfunction
+function! s:ui_bufnr_by_name(name) abort
+  if a:name ==# ''
+    return -1
+  endif
+
+  let buffers = filter(range(1, bufnr('$')), { _, val ->
+        \ getbufvar(val, '&filetype') ==# 'ddu-ff'
+        \ && getbufvar(val, 'ddu_ui_name') ==# a:name })
+  return empty(buffers) ? -1 : buffers[0]
+endfunction
 function! s:getcurpos(winid) abort
   if has('nvim-0.7') || !has('nvim')
     return getcurpos(a:winid)
@@ -228,46 +599,74 @@ function! s:getcurpos(winid) abort
   return cursor
 endfunction
 
-let s:cursor_text = ''
-let s:auto_action = {}
+let s:auto_action_timers = {}
 function! ddu#ui#ff#_do_auto_action() abort
-  if empty(s:auto_action)
+  let bufnr = s:ui_bufnr()
+  let auto_action = getbufvar(bufnr, 'ddu_ui_ff_auto_action', {})
+  if empty(auto_action)
     return
   endif
 
-  let winid =
-        \ (&l:filetype ==# 'ddu-ff'
-        \  || !exists('g:ddu#ui#ff#_filter_parent_winid')) ?
-        \ win_getid() : g:ddu#ui#ff#_filter_parent_winid
-  let bufnr = winbufnr(winid)
+  let delay = get(auto_action, 'delay', 0)
+  if delay > 0
+    " NOTE: The pending action is cancelled when the cursor is moved again
+    if has_key(s:auto_action_timers, bufnr)
+      call timer_stop(s:auto_action_timers[bufnr])
+    endif
+    let s:auto_action_timers[bufnr] = timer_start(
+          \ delay, { -> s:do_auto_action(bufnr) })
+  else
+    call s:do_auto_action(bufnr)
+  endif
+endfunction
+function! s:do_auto_action(bufnr) abort
+  if has_key(s:auto_action_timers, a:bufnr)
+    call remove(s:auto_action_timers, a:bufnr)
+  endif
 
-  let text = getbufline(bufnr, s:getcurpos(winid)[1])[0]
-  if text != s:cursor_text
-    call ddu#ui#ff#do_action(s:auto_action.name, s:auto_action.params)
-    let s:cursor_text = text
+  " NOTE: The other UI may be focused until the timer is fired
+  let auto_action = getbufvar(a:bufnr, 'ddu_ui_ff_auto_action', {})
+  if empty(auto_action) || !exists('b:ddu_ui_name')
+        \ || s:ui_bufnr() != a:bufnr
+    return
+  endif
+
+  let winid = s:filter_parent_winid()
+  let winid = winid < 0 ? win_getid() : winid
+
+  let text = getbufline(a:bufnr, s:getcurpos(winid)[1])[0]
+  if text != getbufvar(a:bufnr, 'ddu_ui_ff_auto_action_text', '')
+    call ddu#ui#ff#do_action(auto_action.name, auto_action.params)
+    call setbufvar(a:bufnr, 'ddu_ui_ff_auto_action_text', text)
   endif
 endfunction
-function! ddu#ui#ff#_reset_auto_action() abort
-  let s:cursor_text = ''
-  let s:auto_action = {}
+function! ddu#ui#ff#_reset_auto_action(bufnr) abort
+  if has_key(s:auto_action_timers, a:bufnr)
+    call timer_stop(remove(s:auto_action_timers, a:bufnr))
+  endif
+
+  call setbufvar(a:bufnr, 'ddu_ui_ff_auto_action_text', '')
+  call setbufvar(a:bufnr, 'ddu_ui_ff_auto_action', {})
   augroup ddu-ui-auto_action
-    autocmd!
+    execute 'autocmd! CursorMoved <buffer=' . a:bufnr . '>'
   augroup END
 endfunction
-function! ddu#ui#ff#_set_auto_action(auto_action) abort
-  let s:auto_action = a:auto_action
-  autocmd ddu-ui-auto_action CursorMoved <buffer>
-        \ call ddu#ui#ff#_do_auto_action()
+function! ddu#ui#ff#_set_auto_action(bufnr, auto_action) abort
+  call setbufvar(a:bufnr, 'ddu_ui_ff_auto_action', a:auto_action)
+  execute 'autocmd ddu-ui-auto_action CursorMoved <buffer=' . a:bufnr . '>'
+        \ 'call ddu#ui#ff#_do_auto_action()'
 endfunction
 
 function! ddu#ui#ff#_cursor(line, col) abort
-  if &l:filetype ==# 'ddu-ff' || !exists('g:ddu#ui#ff#_filter_parent_winid')
+  let winid = s:filter_parent_winid()
+  if winid < 0
     call cursor(a:line, a:col)
     normal! zb
+    call s:skip_header(bufnr('%'), win_getid())
   else
-    let winid = g:ddu#ui#ff#_filter_parent_winid
     call win_execute(winid, printf('call cursor(%d, %d) | normal! zb',
           \ a:line, a:col))
+    call s:skip_header(winbufnr(winid), winid)
   endif
 endfunction
 
@@ -278,6 +677,32 @@ function! ddu#ui#ff#_save_cursor() abort
         \ }
 endfunction
 
+function! ddu#ui#ff#_update_virtual(bufnr, virtual) abort
+  call setbufvar(a:bufnr, 'ddu_ui_ff_virtual', a:virtual)
+
+  augroup ddu-ui-ff-virtual
+    execute 'autocmd! CursorMoved <buffer=' . a:bufnr . '>'
+    if !empty(a:virtual)
+      execute 'autocmd CursorMoved <buffer=' . a:bufnr . '>'
+            \ 'call ddu#ui#ff#_check_virtual()'
+    endif
+  augroup END
+endfunction
+function! ddu#ui#ff#_check_virtual() abort
+  let virtual = get(b:, 'ddu_ui_ff_virtual', {})
+  if empty(virtual) || !exists('b:ddu_ui_name')
+    return
+  endif
+
+  " NOTE: Render the next items before the cursor reaches the edge
+  let margin = winheight(0)
+  if (virtual.offset > 0 && line('.') <= margin)
+        \ || (virtual.offset + line('$') < virtual.max
+        \     && line('$') - line('.') < margin)
+    call ddu#ui_action(b:ddu_ui_name, 'updateVirtualView', {})
+  endif
+endfunction
+
 function! ddu#ui#ff#_echo(msg) abort
   echo a:msg
 endfunction
@@ -18,23 +18,25 @@ function! ddu#ui#ff#filter#_open(name, input, bufnr, params) abort
 
   call cursor(line('$'), 0)
 
+  " NOTE: Clear only this buffer's autocmds.  The other filter buffers must
+  " keep their autocmds.
   augroup ddu-ff-filter
-    autocmd!
+    autocmd! * <buffer>
     autocmd InsertEnter,TextChangedI,TextChangedP,TextChanged,InsertLeave
           \ <buffer> call s:check_update()
   augroup END
 
   " Disable backspace eol.
-  let s:save_backspace = &backspace
+  let b:ddu_ui_ff_filter_save_backspace = &backspace
   set backspace-=eol
   autocmd ddu-ff-filter BufLeave <buffer> ++once
-        \ let &backspace = s:save_backspace
+        \ let &backspace = b:ddu_ui_ff_filter_save_backspace
 
   " Disable whichwrap.
-  let s:save_whichwrap = &whichwrap
+  let b:ddu_ui_ff_filter_save_whichwrap = &whichwrap
   set whichwrap=
   autocmd ddu-ff-filter BufLeave <buffer> ++once
-        \ let &whichwrap = s:save_whichwrap
+        \ let &whichwrap = b:ddu_ui_ff_filter_save_whichwrap
 
   " NOTE: prompt must set after cursor move
   if a:params.prompt !=# ''
@@ -52,9 +54,9 @@ function! ddu#ui#ff#filter#_open(name, input, bufnr, params) abort
     call feedkeys('A', 'n')
   endif
 
-  let s:filter_prev_input = getline('.')
-  let s:filter_updatetime = a:params.filterUpdateTime
-  let g:ddu#ui#ff#_filter_parent_winid = parent_id
+  let b:ddu_ui_ff_filter_prev_input = getline('.')
+  let b:ddu_ui_ff_filter_updatetime = a:params.filterUpdateTime
+  let b:ddu_ui_ff_filter_parent_winid = parent_id
   return bufnr('%')
 endfunction
 
@@ -155,38 +157,49 @@ function! s:init_prompt(prompt, highlight_prompt) abort
 
   augroup ddu-ff-filter
     autocmd TextChangedI,TextChangedP,TextChanged <buffer>
-          \ if s:prev_lnum != line('$') | call s:update_prompt() | endif
+          \ if b:ddu_ui_ff_filter_prev_lnum != line('$')
+          \ | call s:update_prompt() | endif
   augroup END
 endfunction
 function! s:update_prompt() abort
   let id = 2000
   call sign_unplace('', {'id': id, 'buffer': bufnr('%')})
   call sign_place(id, '', s:prompt_name, bufnr('%'), {'lnum': line('.')})
-  let s:prev_lnum = line('$')
+  let b:ddu_ui_ff_filter_prev_lnum = line('$')
 endfunction
 
 function! s:check_update() abort
-  if s:filter_updatetime > 0
-    if exists('s:update_timer')
-      call timer_stop(s:update_timer)
+  let bufnr = bufnr('%')
+  if b:ddu_ui_ff_filter_updatetime > 0
+    if exists('b:ddu_ui_ff_filter_update_timer')
+      call timer_stop(b:ddu_ui_ff_filter_update_timer)
     endif
-    let s:update_timer = timer_start(
-          \ s:filter_updatetime, {-> s:check_redraw()})
+    let b:ddu_ui_ff_filter_update_timer = timer_start(
+          \ b:ddu_ui_ff_filter_updatetime, {-> s:check_redraw(bufnr)})
   else
-    call s:check_redraw()
+    call s:check_redraw(bufnr)
   endif
 endfunction
-function! s:check_redraw() abort
-  unlet! s:update_timer
+function! s:check_redraw(bufnr) abort
+  if !bufexists(a:bufnr)
+    return
+  endif
+
+  let vars = getbufvar(a:bufnr, '')
+  if has_key(vars, 'ddu_ui_ff_filter_update_timer')
+    call remove(vars, 'ddu_ui_ff_filter_update_timer')
+  endif
 
-  let input = getline('.')
+  " NOTE: The timer may be fired in another buffer
+  let input = a:bufnr == bufnr('%') ?
+        \ getline('.') : get(getbufline(a:bufnr, '$'), 0, '')
 
-  if &l:filetype !=# 'ddu-ff-filter'
-        \ || input ==# s:filter_prev_input
+  if getbufvar(a:bufnr, '&filetype') !=# 'ddu-ff-filter'
+        \ || input ==# getbufvar(a:bufnr, 'ddu_ui_ff_filter_prev_input')
     return
   endif
 
-  let s:filter_prev_input = input
+  call setbufvar(a:bufnr, 'ddu_ui_ff_filter_prev_input', input)
 
-  call ddu#redraw(b:ddu_ui_name, { 'input': input })
+  call ddu#redraw(getbufvar(a:bufnr, 'ddu_ui_name'), { 'input': input })
 endfunction
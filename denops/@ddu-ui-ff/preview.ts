@@ -19,20 +19,66 @@ import {
 import { replace } from "https://deno.land/x/denops_std@v3.9.1/buffer/mod.ts";
 import { Params } from "../@ddu-uis/ff.ts";
 
+export type PreviewScrollMode =
+  | "halfDown"
+  | "halfUp"
+  | "pageDown"
+  | "pageUp"
+  | "top"
+  | "bottom"
+  | "match";
+
 type PreviewParams = {
+  contextLines?: number;
+  encodings?: string[];
+  marker?: string;
+  mode?: "toggle" | "open" | "close" | "refresh";
+  number?: boolean;
+  terminalTimeout?: number;
+  readLimitBytes?: number;
+  readLimitLines?: number;
   syntaxLimitChars?: number;
 };
 
+type ReadRange = {
+  start: number;
+  end: number;
+};
+
+type FileInfo = {
+  size: number;
+  mtime: number;
+  binary: boolean;
+  mime: string;
+  encoding: string;
+};
+
 type ActionData = Record<string, unknown>;
 
+type PreviewCache = {
+  bufnr: number;
+  stamp: number;
+};
+
 export class PreviewUi {
   private previewWinId = -1;
   private terminalBufnr = -1;
-  private previewedTarget: ActionData = {};
-  private matchIds: Record<number, number> = {};
+  private previewedTarget = "";
+  private previewer: Previewer | null = null;
+  private matchIds: Record<number, number[]> = {};
   private previewBufnrs: Set<number> = new Set();
+  private previewId = 0;
+  private lineOffset = 0;
+  private previewCache: Map<string, PreviewCache> = new Map();
+  private previewCacheSize = 0;
 
   async close(denops: Denops) {
+    // Stop the running terminal job
+    if (this.terminalBufnr > 0) {
+      await denops.call("ddu#ui#ff#_stop_terminal", this.terminalBufnr);
+      this.terminalBufnr = -1;
+    }
+
     if (this.previewWinId > 0 && (await fn.winnr(denops, "$")) != 1) {
       const saveId = await fn.win_getid(denops);
       await batch(denops, async (denops) => {
@@ -42,13 +88,70 @@ export class PreviewUi {
       });
       this.previewWinId = -1;
     }
+
+    // NOTE: The cached buffers are kept for the next preview.
+    const cachedBufnrs = new Set(
+      this.previewCacheSize > 0
+        ? [...this.previewCache.values()].map((cache) => cache.bufnr)
+        : [],
+    );
     await batch(denops, async (denops) => {
       for (const bufnr of this.previewBufnrs) {
+        if (cachedBufnrs.has(bufnr)) {
+          continue;
+        }
         await denops.cmd(
-          `if buflisted(${bufnr}) | silent bwipeout! ${bufnr} | endif`,
+          `if bufexists(${bufnr}) | silent bwipeout! ${bufnr} | endif`,
         );
       }
     });
+    this.previewBufnrs = cachedBufnrs;
+    if (this.previewCacheSize <= 0) {
+      this.previewCache.clear();
+    }
+  }
+
+  async scroll(denops: Denops, mode: PreviewScrollMode) {
+    if (
+      this.previewWinId < 0 ||
+      (await fn.winbufnr(denops, this.previewWinId)) < 0
+    ) {
+      return;
+    }
+
+    let command = "";
+    if (mode == "halfDown") {
+      command = "normal! \x04";
+    } else if (mode == "halfUp") {
+      command = "normal! \x15";
+    } else if (mode == "pageDown") {
+      command = "normal! \x06";
+    } else if (mode == "pageUp") {
+      command = "normal! \x02";
+    } else if (mode == "top") {
+      command = "normal! gg";
+    } else if (mode == "bottom") {
+      command = "normal! G";
+    } else if (mode == "match" && this.previewer) {
+      if ("lineNr" in this.previewer && this.previewer.lineNr) {
+        command = `call cursor(${
+          this.previewer.lineNr - this.lineOffset
+        }, 0) | normal! zvzz`;
+      } else if ("pattern" in this.previewer && this.previewer.pattern) {
+        command = `call search('${
+          this.previewer.pattern.replaceAll("'", "''")
+        }', 'w') | normal! zvzz`;
+      }
+    }
+    if (command == "") {
+      return;
+    }
+
+    await fn.win_execute(denops, this.previewWinId, command);
+    if (denops.meta.host != "nvim") {
+      // NOTE: :redraw is needed for Vim
+      await denops.cmd("redraw");
+    }
   }
 
   async previewContents(
@@ -60,26 +163,44 @@ export class PreviewUi {
     bufnr: number,
     item: DduItem,
   ): Promise<ActionFlags> {
-    const action = item.action as ActionData;
     const prevId = await fn.win_getid(denops);
     const previewParams = ensureObject(actionParams) as PreviewParams;
+    const mode = previewParams.mode ?? "toggle";
+    const target = previewTarget(item);
 
-    // Close if the target is the same as the previous one
-    if (
-      this.previewWinId > 0 &&
-      JSON.stringify(action) == JSON.stringify(this.previewedTarget)
-    ) {
+    // NOTE: The previous preview is cancelled if it is not finished.
+    const previewId = ++this.previewId;
+    this.previewCacheSize = uiParams.previewCacheSize;
+
+    if (mode == "close") {
       await this.close(denops);
       return ActionFlags.None;
     }
 
+    if (this.previewWinId > 0 && target == this.previewedTarget) {
+      if (mode == "toggle") {
+        // Close if the target is the same as the previous one
+        await this.close(denops);
+        return ActionFlags.None;
+      } else if (mode == "open") {
+        return ActionFlags.Persist;
+      }
+    }
+
+    const columns = await op.columns.getGlobal(denops);
+    const lines = await op.lines.getGlobal(denops);
+    const evalSize = async (value: number | string, base: number) =>
+      await denops.call("ddu#ui#ff#_eval_size", value, base) as number;
     const previewContext: PreviewContext = {
-      col: uiParams.previewCol,
-      row: uiParams.previewRow,
-      width: uiParams.previewWidth,
-      height: uiParams.previewHeight,
+      col: await evalSize(uiParams.previewCol, columns),
+      row: await evalSize(uiParams.previewRow, lines),
+      width: await evalSize(uiParams.previewWidth, columns),
+      height: await evalSize(uiParams.previewHeight, lines),
       isFloating: uiParams.previewFloating,
-      isVertical: uiParams.previewVertical,
+      isVertical: uiParams.previewLayout == ""
+        ? uiParams.previewVertical
+        : uiParams.previewLayout != "top" &&
+          uiParams.previewLayout != "bottom",
     };
     const previewer = await denops.call(
       "ddu#get_previewer",
@@ -94,12 +215,14 @@ export class PreviewUi {
     }
 
     let flag: ActionFlags;
+    this.lineOffset = 0;
     // Render the preview
     if (previewer.kind == "terminal") {
       flag = await this.previewContentsTerminal(
         denops,
         previewer,
         uiParams,
+        previewParams,
         bufnr,
       );
     } else {
@@ -110,6 +233,7 @@ export class PreviewUi {
         previewParams,
         bufnr,
         item,
+        () => previewId != this.previewId,
       );
     }
     if (flag == ActionFlags.None) {
@@ -120,10 +244,8 @@ export class PreviewUi {
 
     const previewBufnr = await fn.bufnr(denops);
     this.previewBufnrs.add(previewBufnr);
-    this.previewedTarget = action;
-    if (previewer.kind == "terminal") {
-      this.terminalBufnr = bufnr;
-    }
+    this.previewedTarget = target;
+    this.previewer = previewer;
     await fn.win_gotoid(denops, prevId);
 
     return ActionFlags.Persist;
@@ -133,8 +255,15 @@ export class PreviewUi {
     denops: Denops,
     previewer: TerminalPreviewer,
     uiParams: Params,
+    actionParams: PreviewParams,
     bufnr: number,
   ): Promise<ActionFlags> {
+    // NOTE: Stop the previous job before the buffer is deleted.
+    // Because the exit status is not the error.
+    if (this.terminalBufnr > 0) {
+      await denops.call("ddu#ui#ff#_stop_terminal", this.terminalBufnr);
+    }
+
     if (this.previewWinId < 0) {
       await denops.call(
         "ddu#ui#ff#_open_preview_window",
@@ -149,14 +278,11 @@ export class PreviewUi {
       });
     }
 
-    if (denops.meta.host == "nvim") {
-      await denops.call("termopen", previewer.cmds);
-    } else {
-      await denops.call("term_start", previewer.cmds, {
-        "curwin": true,
-        "term_kill": "kill",
-      });
-    }
+    const terminalBufnr = await denops.call(
+      "ddu#ui#ff#_open_terminal",
+      previewer.cmds,
+      actionParams.terminalTimeout ?? 0,
+    ) as number;
 
     // Delete the previous buffer after opening new one to prevent flicker
     if (this.terminalBufnr > 0) {
@@ -164,11 +290,11 @@ export class PreviewUi {
         await denops.cmd(
           `if buflisted(${this.terminalBufnr}) | silent bwipeout! ${this.terminalBufnr} | endif`,
         );
-        this.terminalBufnr = -1;
       } catch (e) {
         console.error(e);
       }
     }
+    this.terminalBufnr = terminalBufnr;
 
     return ActionFlags.Persist;
   }
@@ -180,6 +306,7 @@ export class PreviewUi {
     actionParams: PreviewParams,
     bufnr: number,
     item: DduItem,
+    isCancelled: () => boolean,
   ): Promise<ActionFlags> {
     if (
       previewer.kind == "nofile" && !previewer.contents?.length ||
@@ -188,8 +315,39 @@ export class PreviewUi {
       return ActionFlags.None;
     }
 
-    const bufname = await this.getPreviewBufferName(denops, previewer, item);
-    const exists = await fn.buflisted(denops, bufname);
+    const fileInfo = await this.getFileInfo(denops, previewer, actionParams);
+    const readRange = this.getReadRange(previewer, fileInfo, actionParams);
+    const bufname = await this.getPreviewBufferName(
+      denops,
+      previewer,
+      item,
+      readRange,
+    );
+    const exists = await fn.bufexists(denops, bufname);
+    const stamp = await this.getStamp(denops, previewer, fileInfo);
+    // NOTE: If the cache is disabled, the existing buffer is reused as is.
+    const cache = this.previewCache.get(bufname);
+    const reload = !exists || actionParams.mode == "refresh" ||
+      this.previewCacheSize > 0 && (!cache || cache.stamp != stamp);
+
+    // NOTE: Read the contents before open the preview window.
+    // Because it may be cancelled.
+    let text: string[] = [];
+    if (reload) {
+      const contents = await this.getContents(
+        denops,
+        previewer,
+        fileInfo,
+        readRange,
+        isCancelled,
+      );
+      if (!contents) {
+        return ActionFlags.None;
+      }
+      text = contents;
+    }
+    this.lineOffset = readRange ? readRange.start - 1 : 0;
+
     if (this.previewWinId < 0) {
       try {
         await denops.call(
@@ -206,15 +364,14 @@ export class PreviewUi {
     } else {
       await fn.win_gotoid(denops, this.previewWinId);
     }
-    if (!exists) {
-      await denops.cmd(`edit ${bufname}`);
-      const text = await this.getContents(denops, previewer);
+    await denops.cmd(exists ? `buffer ${bufname}` : `edit ${bufname}`);
+    if (reload) {
       const bufnr = await fn.bufnr(denops) as number;
       await batch(denops, async (denops: Denops) => {
         await fn.setbufvar(denops, bufnr, "&buftype", "nofile");
         await replace(denops, bufnr, text);
         const limit = actionParams.syntaxLimitChars ?? 200000;
-        if (text.join("\n").length < limit) {
+        if (!fileInfo?.binary && text.join("\n").length < limit) {
           if (previewer.syntax) {
             await fn.setbufvar(denops, bufnr, "&syntax", previewer.syntax);
           } else if (previewer.kind == "buffer") {
@@ -222,22 +379,138 @@ export class PreviewUi {
           }
         }
       });
-    } else {
-      await denops.cmd(`buffer ${bufname}`);
     }
 
     // Set previewwindow option.
     await op.previewwindow.setLocal(denops, true);
 
+    // NOTE: The preview buffers must not be listed.  Because the cached
+    // buffers are kept after the preview window is closed.
     const previewBufnr = await fn.bufnr(denops) as number;
-    await this.highlight(denops, previewer, previewBufnr);
+    await fn.setbufvar(denops, previewBufnr, "&buflisted", 0);
+    await this.updateCache(denops, bufname, previewBufnr, stamp);
+    await this.highlight(denops, previewer, uiParams, previewBufnr, item);
+    await this.setContext(denops, previewer, actionParams, previewBufnr);
     return ActionFlags.Persist;
   }
 
+  private async getStamp(
+    denops: Denops,
+    previewer: BufferPreviewer | NoFilePreviewer,
+    fileInfo: FileInfo | null,
+  ): Promise<number> {
+    if (fileInfo) {
+      return fileInfo.mtime;
+    } else if (previewer.kind == "buffer" && previewer.expr) {
+      return await fn.getbufvar(
+        denops,
+        previewer.expr,
+        "changedtick",
+        0,
+      ) as number;
+    }
+
+    return 0;
+  }
+
+  private async updateCache(
+    denops: Denops,
+    bufname: string,
+    bufnr: number,
+    stamp: number,
+  ) {
+    if (this.previewCacheSize <= 0) {
+      return;
+    }
+
+    // Move to the most recently used
+    this.previewCache.delete(bufname);
+    this.previewCache.set(bufname, { bufnr, stamp });
+
+    // Remove the least recently used buffers
+    for (const [name, cache] of this.previewCache) {
+      if (this.previewCache.size <= this.previewCacheSize) {
+        break;
+      }
+
+      this.previewCache.delete(name);
+      this.previewBufnrs.delete(cache.bufnr);
+      await denops.cmd(
+        `if bufexists(${cache.bufnr}) | silent bwipeout! ${cache.bufnr} | endif`,
+      );
+    }
+  }
+
+  private async getFileInfo(
+    denops: Denops,
+    previewer: BufferPreviewer | NoFilePreviewer,
+    actionParams: PreviewParams,
+  ): Promise<FileInfo | null> {
+    if (previewer.kind != "buffer" || !previewer.path) {
+      return null;
+    }
+    // NOTE: The listed buffer is previewed instead of the file
+    if (previewer.expr && await fn.buflisted(denops, previewer.expr)) {
+      return null;
+    }
+
+    // NOTE: Deno.stat() may be failed
+    let head: Uint8Array;
+    let size: number;
+    let mtime: number;
+    try {
+      const stat = await Deno.stat(previewer.path);
+      if (!stat.isFile) {
+        return null;
+      }
+      size = stat.size;
+      mtime = stat.mtime?.getTime() ?? 0;
+      head = await readHead(previewer.path, 8192);
+    } catch (_e: unknown) {
+      return null;
+    }
+
+    const encodings = actionParams.encodings ??
+      (await denops.call("eval", "&fileencodings") as string).split(",");
+    const encoding = detectEncoding(head, encodings);
+    const mime = detectMime(head);
+    return {
+      size,
+      mtime,
+      // NOTE: UTF-16 contains NUL bytes
+      binary: mime != "" ||
+        (!encoding.startsWith("utf-16") && head.includes(0)),
+      mime: mime != "" ? mime : "application/octet-stream",
+      encoding,
+    };
+  }
+
+  private getReadRange(
+    previewer: BufferPreviewer | NoFilePreviewer,
+    fileInfo: FileInfo | null,
+    actionParams: PreviewParams,
+  ): ReadRange | null {
+    if (
+      !fileInfo || fileInfo.binary ||
+      fileInfo.size <= (actionParams.readLimitBytes ?? 1000000)
+    ) {
+      return null;
+    }
+
+    // Read the lines around lineNr only
+    const lines = actionParams.readLimitLines ?? 1000;
+    const start = Math.max(
+      (previewer.lineNr ?? 1) - Math.trunc(lines / 2),
+      1,
+    );
+    return { start, end: start + lines - 1 };
+  }
+
   private async getPreviewBufferName(
     denops: Denops,
     previewer: BufferPreviewer | NoFilePreviewer,
     item: DduItem,
+    readRange: ReadRange | null,
   ): Promise<string> {
     if (previewer.kind == "buffer") {
       if (previewer.expr) {
@@ -247,6 +520,8 @@ export class PreviewUi {
         } else {
           return `ddu-ff:${bufname}`;
         }
+      } else if (readRange) {
+        return `ddu-ff:${previewer.path}:${readRange.start}-${readRange.end}`;
       } else {
         return `ddu-ff:${previewer.path}`;
       }
@@ -258,7 +533,10 @@ export class PreviewUi {
   private async getContents(
     denops: Denops,
     previewer: BufferPreviewer | NoFilePreviewer,
-  ): Promise<string[]> {
+    fileInfo: FileInfo | null,
+    readRange: ReadRange | null,
+    isCancelled: () => boolean,
+  ): Promise<string[] | null> {
     if (previewer.kind == "buffer") {
       if (previewer.expr && await fn.buflisted(denops, previewer.expr)) {
         return await fn.getbufline(
@@ -267,12 +545,34 @@ export class PreviewUi {
           1,
           "$",
         );
-      } else if (
-        previewer.path && (await exists(previewer.path)) &&
-        !(await isDirectory(previewer.path))
-      ) {
-        const data = Deno.readFileSync(previewer.path);
-        return new TextDecoder().decode(data).split("\n");
+      } else if (previewer.path && fileInfo) {
+        if (fileInfo.binary) {
+          return [
+            "[binary file]",
+            `path: ${previewer.path}`,
+            `size: ${fileInfo.size} bytes`,
+            `type: ${fileInfo.mime}`,
+          ];
+        }
+
+        const decoder = new TextDecoder(fileInfo.encoding);
+        let lines: string[] | null;
+        if (readRange) {
+          lines = await readLines(
+            previewer.path,
+            readRange,
+            decoder,
+            isCancelled,
+          );
+        } else {
+          const data = await Deno.readFile(previewer.path);
+          lines = isCancelled() ? null : decoder.decode(data).split("\n");
+        }
+
+        // Remove CR of CRLF line endings
+        return lines && lines.length > 1 && lines[0].endsWith("\r")
+          ? lines.map((line) => line.replace(/\r$/, ""))
+          : lines;
       } else {
         return [];
       }
@@ -287,17 +587,63 @@ export class PreviewUi {
         await fn.search(denops, previewer.pattern, "w");
       }
       if ("lineNr" in previewer && previewer.lineNr) {
-        await fn.cursor(denops, [previewer.lineNr, 0]);
+        await fn.cursor(denops, [previewer.lineNr - this.lineOffset, 0]);
         await denops.cmd("normal! zv");
         await denops.cmd("normal! zz");
       }
     });
   }
 
+  private async setContext(
+    denops: Denops,
+    previewer: BufferPreviewer | NoFilePreviewer,
+    actionParams: PreviewParams,
+    bufnr: number,
+  ) {
+    const lnum = previewer.lineNr ? previewer.lineNr - this.lineOffset : 0;
+    const contextLines = actionParams.contextLines ?? 0;
+    const marker = actionParams.marker ?? "";
+
+    await batch(denops, async (denops: Denops) => {
+      await op.number.setLocal(denops, actionParams.number ?? false);
+
+      // NOTE: The buffer may be reused.  Clear the folds of the previous
+      // preview.
+      await op.foldenable.setLocal(denops, false);
+      await denops.cmd("silent! normal! zE");
+
+      // Keep the context lines around the target line.  The target line is
+      // centered by jump().
+      await op.scrolloff.setLocal(
+        denops,
+        contextLines > 0 && lnum > 0 ? contextLines : -1,
+      );
+
+      // Place the marker sign
+      await denops.call("sign_unplace", markerSignGroup, { buffer: bufnr });
+      if (marker != "" && lnum > 0) {
+        await denops.call("sign_define", markerSignName, {
+          text: marker,
+          texthl: "Search",
+        });
+        await denops.call(
+          "sign_place",
+          0,
+          markerSignGroup,
+          markerSignName,
+          bufnr,
+          { lnum },
+        );
+      }
+    });
+  }
+
   private async highlight(
     denops: Denops,
     previewer: BufferPreviewer | NoFilePreviewer,
+    uiParams: Params,
     bufnr: number,
+    item: DduItem,
   ) {
     const ns = denops.meta.host == "nvim"
       ? await denops.call("nvim_create_namespace", "ddu-ui-ff-preview")
@@ -305,10 +651,10 @@ export class PreviewUi {
     const winid = this.previewWinId;
 
     // Clear the previous highlight
-    if (this.matchIds[winid] > 0) {
-      await fn.matchdelete(denops, this.matchIds[winid], winid);
-      this.matchIds[winid] = -1;
+    for (const matchId of this.matchIds[winid] ?? []) {
+      await fn.matchdelete(denops, matchId, winid);
     }
+    this.matchIds[winid] = [];
     if (denops.meta.host == "nvim") {
       await denops.call("nvim_buf_clear_namespace", 0, ns, 0, -1);
     } else {
@@ -320,15 +666,43 @@ export class PreviewUi {
     }
 
     if (previewer?.lineNr) {
-      this.matchIds[winid] = await fn.matchaddpos(denops, "Search", [
-        previewer.lineNr,
-      ]) as number;
+      const lnum = previewer.lineNr - this.lineOffset;
+      this.matchIds[winid].push(
+        await fn.matchaddpos(denops, "Search", [lnum]) as number,
+      );
+      if (previewer?.pattern) {
+        // Highlight the matched columns in the line
+        this.matchIds[winid].push(
+          await fn.matchadd(
+            denops,
+            uiParams.highlights?.previewMatch ?? "IncSearch",
+            `\\%${lnum}l\\%(${previewer.pattern}\\)`,
+            20,
+          ) as number,
+        );
+      } else if (item.highlights?.length) {
+        // Highlight the item highlight columns in the line
+        const text = (await fn.getbufline(denops, bufnr, lnum))[0] ?? "";
+        const positions = matchPositions(item, text, lnum);
+        if (positions.length > 0) {
+          this.matchIds[winid].push(
+            await fn.matchaddpos(
+              denops,
+              uiParams.highlights?.previewMatch ?? "IncSearch",
+              positions,
+              20,
+            ) as number,
+          );
+        }
+      }
     } else if (previewer?.pattern) {
-      this.matchIds[winid] = await fn.matchadd(
-        denops,
-        "Search",
-        previewer.pattern,
-      ) as number;
+      this.matchIds[winid].push(
+        await fn.matchadd(
+          denops,
+          "Search",
+          previewer.pattern,
+        ) as number,
+      );
     }
 
     await batch(denops, async (denops) => {
@@ -344,7 +718,7 @@ export class PreviewUi {
           1,
           ns,
           bufnr,
-          hl.row,
+          hl.row - this.lineOffset,
           hl.col,
           hl.width,
         );
@@ -353,28 +727,165 @@ export class PreviewUi {
   }
 }
 
-const exists = async (path: string) => {
-  // NOTE: Deno.stat() may be failed
+const previewTarget = (item: DduItem) => {
+  // NOTE: The target is identified by the source index, the word, the path
+  // and the line number.  action may be huge or circular.
+  const action = item.action as ActionData;
+  return [
+    item.__sourceIndex,
+    item.word,
+    action?.path ?? "",
+    action?.lineNr ?? "",
+  ].join("\n");
+};
+
+const matchPositions = (item: DduItem, text: string, lnum: number) => {
+  // NOTE: The item highlights are the columns in the displayed text.  They
+  // are converted to the columns in the line by the line text position.
+  const display = item.display ?? item.word;
+  const trimmed = text.trimStart();
+  const start = trimmed == "" ? -1 : display.lastIndexOf(trimmed);
+  if (start < 0) {
+    return [];
+  }
+
+  const encoder = new TextEncoder();
+  const offset = encoder.encode(text).length -
+    encoder.encode(trimmed).length -
+    encoder.encode(display.slice(0, start)).length;
+  const length = encoder.encode(text).length;
+  return (item.highlights ?? [])
+    .map((hl) => [lnum, hl.col + offset, hl.width])
+    .filter(([_, col, width]) => col >= 1 && col + width - 1 <= length)
+    // NOTE: matchaddpos() accepts up to 8 positions in old Vim
+    .slice(0, 8);
+};
+
+const markerSignName = "ddu_ui_ff_preview_marker";
+const markerSignGroup = "ddu-ui-ff-preview";
+
+const readLines = async (
+  path: string,
+  range: ReadRange,
+  decoder: TextDecoder,
+  isCancelled: () => boolean,
+): Promise<string[] | null> => {
+  // NOTE: The lines before the range are skipped by the newline bytes without
+  // decoding.  But it cannot be used for UTF-16.
+  const skipBytes = !decoder.encoding.startsWith("utf-16");
+
+  const file = await Deno.open(path, { read: true });
   try {
-    if (await Deno.stat(path)) {
-      return true;
+    const buf = new Uint8Array(65536);
+    const lines: string[] = [];
+    let lnum = 1;
+    let rest = "";
+    while (lnum <= range.end) {
+      // NOTE: Check cancel per chunk.  Because the file may be huge.
+      if (isCancelled()) {
+        return null;
+      }
+
+      const size = await file.read(buf);
+      if (size === null) {
+        rest += decoder.decode();
+        if (lnum >= range.start) {
+          lines.push(rest);
+        }
+        break;
+      }
+
+      let chunk = buf.subarray(0, size);
+      if (skipBytes) {
+        while (lnum < range.start) {
+          const pos = chunk.indexOf(0x0a);
+          if (pos < 0) {
+            break;
+          }
+          chunk = chunk.subarray(pos + 1);
+          lnum++;
+        }
+        if (lnum < range.start) {
+          continue;
+        }
+      }
+
+      const chunkLines = (rest + decoder.decode(
+        chunk,
+        { stream: true },
+      )).split("\n");
+      rest = chunkLines.pop() ?? "";
+      for (const line of chunkLines) {
+        if (lnum >= range.start && lnum <= range.end) {
+          lines.push(line);
+        }
+        lnum++;
+      }
     }
-  } catch (_e: unknown) {
-    // Ignore
-  }
 
-  return false;
+    return lines;
+  } finally {
+    file.close();
+  }
 };
 
-const isDirectory = async (path: string) => {
-  // NOTE: Deno.stat() may be failed
+const readHead = async (path: string, length: number) => {
+  const file = await Deno.open(path, { read: true });
   try {
-    if ((await Deno.stat(path)).isDirectory) {
-      return true;
+    const buf = new Uint8Array(length);
+    const size = await file.read(buf);
+    return buf.subarray(0, size ?? 0);
+  } finally {
+    file.close();
+  }
+};
+
+const detectEncoding = (head: Uint8Array, encodings: string[]) => {
+  // Check BOM
+  if (head[0] == 0xef && head[1] == 0xbb && head[2] == 0xbf) {
+    return "utf-8";
+  } else if (head[0] == 0xff && head[1] == 0xfe) {
+    return "utf-16le";
+  } else if (head[0] == 0xfe && head[1] == 0xff) {
+    return "utf-16be";
+  }
+
+  for (const encoding of encodings) {
+    // NOTE: Convert Vim's encoding names
+    const label = encoding == "cp932"
+      ? "shift_jis"
+      : encoding.replace(/^ucs-bom$|^default$/, "");
+    if (label == "") {
+      continue;
+    }
+
+    try {
+      new TextDecoder(label, { fatal: true }).decode(head, { stream: true });
+      return label;
+    } catch (_e: unknown) {
+      // Unknown encoding or decode failed
+    }
+  }
+
+  return "utf-8";
+};
+
+const magicNumbers: [number[], string][] = [
+  [[0x89, 0x50, 0x4e, 0x47], "image/png"],
+  [[0xff, 0xd8, 0xff], "image/jpeg"],
+  [[0x47, 0x49, 0x46, 0x38], "image/gif"],
+  [[0x25, 0x50, 0x44, 0x46], "application/pdf"],
+  [[0x50, 0x4b, 0x03, 0x04], "application/zip"],
+  [[0x1f, 0x8b], "application/gzip"],
+  [[0x7f, 0x45, 0x4c, 0x46], "application/x-elf"],
+];
+
+const detectMime = (head: Uint8Array) => {
+  for (const [magic, mime] of magicNumbers) {
+    if (magic.every((byte, i) => head[i] == byte)) {
+      return mime;
     }
-  } catch (_e: unknown) {
-    // Ignore
   }
 
-  return false;
+  return "";
 };
@@ -5,6 +5,7 @@ import {
   DduItem,
   DduOptions,
   ExpandItem,
+  ItemHighlight,
   UiActions,
   UiOptions,
 } from "https://deno.land/x/ddu_vim@v1.12.0/types.ts";
@@ -15,8 +16,14 @@ import {
   op,
   vars,
 } from "https://deno.land/x/ddu_vim@v1.12.0/deps.ts";
-import { PreviewUi } from "../@ddu-ui-ff/preview.ts";
-import { dirname } from "https://deno.land/std@0.160.0/path/mod.ts";
+import { PreviewScrollMode, PreviewUi } from "../@ddu-ui-ff/preview.ts";
+import {
+  basename,
+  dirname,
+  join,
+  relative,
+  resolve,
+} from "https://deno.land/std@0.160.0/path/mod.ts";
 
 type DoActionParams = {
   name?: string;
@@ -26,13 +33,19 @@ type DoActionParams = {
 
 type HighlightGroup = {
   floating?: string;
+  group?: string;
+  matched?: string;
+  previewMatch?: string;
   prompt?: string;
   selected?: string;
+  treeGuide?: string;
+  treeIcon?: string;
 };
 
 type AutoAction = {
   name?: string;
   params?: unknown;
+  delay?: number;
 };
 
 type FloatingBorder =
@@ -49,8 +62,74 @@ type SaveCursor = {
   text: string;
 };
 
+type TreePrefix = {
+  text: string;
+  highlights: ItemHighlight[];
+};
+
+type ColumnName =
+  | "icon"
+  | "source"
+  | "filename"
+  | "directory"
+  | "size"
+  | "mtime";
+
+type Column = {
+  name: ColumnName;
+  width?: number;
+  highlight?: string;
+  directoryIcon?: string;
+  fileIcon?: string;
+};
+
+type ColumnsText = {
+  text: string;
+  highlights: ItemHighlight[];
+};
+
+type GroupHeader = {
+  sourceIndex: number;
+  sourceName: string;
+  count: number;
+  folded: boolean;
+};
+
+// NOTE: The group headers are rendered between the items.
+type ViewRow = DduItem | GroupHeader;
+
+type TruncatedText = {
+  text: string;
+  // The removed byte range of the original text
+  removed: [number, number] | null;
+};
+
+type ViewCursor = {
+  index: number;
+  row: number;
+};
+
 export type ActionData = {
+  bufNr?: number;
   isDirectory?: boolean;
+  lineNr?: number;
+  path?: string;
+};
+
+type UpdateVirtualViewParams = {
+  position?: "top" | "bottom";
+};
+
+type ToggleSelectRangeParams = {
+  start?: number;
+  end?: number;
+};
+
+type PreviewScrollParams = {
+  mode?: PreviewScrollMode;
+};
+
+type RevealPathParams = {
   path?: string;
 };
 
@@ -62,45 +141,73 @@ type ExpandItemParams = {
 export type Params = {
   autoAction: AutoAction;
   autoResize: boolean;
+  columns: Column[];
   cursorPos: number;
   displaySourceName: "long" | "short" | "no";
+  displayTree: boolean;
+  dropFilteredSelection: boolean;
+  expandedPathsDir: string;
   floatingBorder: FloatingBorder;
   filterFloatingPosition: "top" | "bottom";
   filterSplitDirection: "botright" | "topleft" | "floating";
   filterUpdateTime: number;
+  groupBySource: boolean;
   highlights: HighlightGroup;
   ignoreEmpty: boolean;
-  previewCol: number;
+  maxDisplayItems: number;
+  previewCacheSize: number;
+  previewCol: number | string;
   previewFloating: boolean;
-  previewHeight: number;
-  previewRow: number;
+  previewHeight: number | string;
+  previewLayout: "" | "right" | "left" | "top" | "bottom" | "auto";
+  previewRow: number | string;
   previewVertical: boolean;
-  previewWidth: number;
+  previewWidth: number | string;
   previewFloatingBorder: FloatingBorder;
   previewFloatingZindex: number;
   prompt: string;
+  restoreExpandedPaths: boolean;
   reversed: boolean;
+  selectedMarker: string;
   split: "horizontal" | "vertical" | "floating" | "no";
   splitDirection: "botright" | "topleft";
   startFilter: boolean;
+  startPath: string;
   statusline: boolean;
-  winCol: number;
-  winHeight: number;
-  winRow: number;
-  winWidth: number;
+  treeCollapsedIcon: string;
+  treeExpandedIcon: string;
+  treeGuide: string;
+  treeIndent: number;
+  truncatePath: boolean;
+  virtualMargin: number;
+  virtualRender: boolean;
+  winCol: number | string;
+  winHeight: number | string;
+  winRow: number | string;
+  winWidth: number | string;
 };
 
 export class Ui extends BaseUi<Params> {
   private buffers: Record<string, number> = {};
   private filterBufnr = -1;
   private items: DduItem[] = [];
-  private viewItems: DduItem[] = [];
-  private selectedItems: Set<number> = new Set();
+  private viewItems: ViewRow[] = [];
+  private foldedGroups: Set<number> = new Set();
+  private viewStart = 0;
+  private viewCursor: ViewCursor | null = null;
+  private selectedItems: Map<string, DduItem> = new Map();
+  private stats: Map<string, Deno.FileInfo | null> = new Map();
   private expandedPaths: Set<string> = new Set();
+  private expandedPathsChanged = false;
+  private restorePaths: Set<string> | null = null;
+  private restoring = false;
+  private searchParentPath = "";
   private saveMode = "";
   private checkEnd = false;
   private refreshed = false;
   private prevLength = -1;
+  private startPathRevealed = false;
+  private truncated = false;
   private previewUi = new PreviewUi();
 
   async onInit(args: {
@@ -110,16 +217,34 @@ export class Ui extends BaseUi<Params> {
     this.checkEnd =
       await fn.col(args.denops, "$") == await fn.col(args.denops, ".");
     this.filterBufnr = -1;
+    this.startPathRevealed = false;
+    this.restorePaths = null;
+    this.restoring = false;
   }
 
   // deno-lint-ignore require-await
   async refreshItems(args: {
+    uiParams: Params;
     items: DduItem[];
   }): Promise<void> {
-    // NOTE: Use only 1000 items
     this.prevLength = this.items.length;
-    this.items = args.items.slice(0, 1000);
-    this.selectedItems.clear();
+    // NOTE: Use only maxDisplayItems items unless virtualRender is enabled.
+    // virtualRender keeps all items and renders only around the cursor.
+    this.items = args.uiParams.virtualRender
+      ? args.items
+      : args.items.slice(0, args.uiParams.maxDisplayItems);
+    this.truncated = this.items.length < args.items.length;
+
+    // Update the selected items by the new items.
+    // NOTE: The selected items which are filtered out are kept.
+    if (this.selectedItems.size > 0) {
+      for (const item of this.items) {
+        const key = selectKey(item);
+        if (this.selectedItems.has(key)) {
+          this.selectedItems.set(key, item);
+        }
+      }
+    }
     this.refreshed = true;
   }
 
@@ -129,9 +254,8 @@ export class Ui extends BaseUi<Params> {
   }) {
     const pos = this.items.findIndex((item) => item == args.item);
 
-    if (pos > 0) {
-      await fn.cursor(args.denops, pos + 1, 0);
-      await args.denops.cmd("normal! zz");
+    if (pos >= 0) {
+      await this.cursorItem(args.denops, pos);
     }
   }
 
@@ -140,12 +264,11 @@ export class Ui extends BaseUi<Params> {
     path: string;
   }) {
     const pos = this.items.findIndex(
-      (item) => args.path == (item?.action as ActionData).path ?? item.word,
+      (item) => args.path == ((item?.action as ActionData)?.path ?? item.word),
     );
 
-    if (pos > 0) {
-      await fn.cursor(args.denops, pos + 1, 0);
-      await args.denops.cmd("normal! zz");
+    if (pos >= 0) {
+      await this.cursorItem(args.denops, pos);
     }
   }
 
@@ -184,9 +307,13 @@ export class Ui extends BaseUi<Params> {
 
     const hasNvim = args.denops.meta.host == "nvim";
     const floating = args.uiParams.split == "floating" && hasNvim;
+    // NOTE: The group headers are also displayed.
+    const displayLength = args.uiParams.groupBySource
+      ? groupRows(this.items, this.items, this.foldedGroups).length
+      : this.items.length;
     const winHeight = args.uiParams.autoResize &&
-        this.items.length < Number(args.uiParams.winHeight)
-      ? Math.max(this.items.length, 1)
+        displayLength < Number(args.uiParams.winHeight)
+      ? Math.max(displayLength, 1)
       : Number(args.uiParams.winHeight);
     const winid = await fn.bufwinid(args.denops, bufnr);
     if (winid < 0) {
@@ -239,7 +366,7 @@ export class Ui extends BaseUi<Params> {
         return;
       }
       await batch(args.denops, async (denops) => {
-        await denops.call("ddu#ui#ff#_reset_auto_action");
+        await denops.call("ddu#ui#ff#_reset_auto_action", bufnr);
         const autoAction = args.uiParams.autoAction;
         if ("name" in autoAction) {
           if (!("params" in autoAction)) {
@@ -247,10 +374,30 @@ export class Ui extends BaseUi<Params> {
           }
           await denops.call(
             "ddu#ui#ff#_set_auto_action",
+            bufnr,
             autoAction,
           );
         }
       });
+    } else if (floating) {
+      // Update the position for the resized screen
+      await args.denops.call("nvim_win_set_config", winid, {
+        "relative": "editor",
+        "row": Number(args.uiParams.winRow),
+        "col": Number(args.uiParams.winCol),
+        "width": Number(args.uiParams.winWidth),
+        "height": winHeight,
+      });
+      if ((await fn.bufwinid(args.denops, this.filterBufnr)) >= 0) {
+        // Redraw floating window
+        await args.denops.call(
+          "ddu#ui#ff#filter#_floating",
+          this.filterBufnr,
+          winid,
+          args.uiParams,
+        );
+      }
+      await args.denops.call("ddu#ui#ff#_relayout_preview_windows");
     } else if (args.uiParams.autoResize) {
       await fn.win_execute(
         args.denops,
@@ -279,6 +426,18 @@ export class Ui extends BaseUi<Params> {
     await args.denops.cmd(`augroup ${augroupName}`);
     await args.denops.cmd(`autocmd! ${augroupName}`);
 
+    // Recompute the floating window size when the screen is resized
+    const resizeAugroupName = `ddu-ui-ff-resize-${args.options.name}`;
+    await args.denops.cmd(
+      `augroup ${resizeAugroupName} | autocmd! | augroup END`,
+    );
+    if (floating) {
+      await args.denops.cmd(
+        `autocmd ${resizeAugroupName} VimResized *` +
+          ` call ddu#redraw("${args.options.name}")`,
+      );
+    }
+
     await this.setStatusline(
       args.denops,
       args.context,
@@ -306,6 +465,96 @@ export class Ui extends BaseUi<Params> {
       }
       return "";
     };
+    const treeIconWidths = {
+      collapsed: await fn.strwidth(
+        args.denops,
+        args.uiParams.treeCollapsedIcon,
+      ) as number,
+      expanded: await fn.strwidth(
+        args.denops,
+        args.uiParams.treeExpandedIcon,
+      ) as number,
+    };
+    const treeGuideWidth = await fn.strwidth(
+      args.denops,
+      args.uiParams.treeGuide,
+    ) as number;
+    const getTreePrefix = (item: DduItem): TreePrefix => {
+      if (!args.uiParams.displayTree) {
+        return { text: "", highlights: [] };
+      }
+
+      // NOTE: highlight col and width are byte index.
+      const highlights: ItemHighlight[] = [];
+      let text = "";
+      const indent = args.uiParams.treeIndent;
+      const guide = args.uiParams.treeGuide;
+      for (let level = 0; level < item.__level; level++) {
+        if (guide != "" && indent >= treeGuideWidth) {
+          highlights.push({
+            name: "ddu-ui-ff-tree-guide",
+            hl_group: args.uiParams.highlights?.treeGuide ?? "Comment",
+            col: byteLength(text) + 1,
+            width: byteLength(guide),
+          });
+          text += guide + " ".repeat(indent - treeGuideWidth);
+        } else {
+          text += " ".repeat(indent);
+        }
+      }
+
+      const iconWidth = Math.max(
+        treeIconWidths.collapsed,
+        treeIconWidths.expanded,
+      );
+      if ((item.action as ActionData)?.isDirectory) {
+        const icon = item.__expanded
+          ? args.uiParams.treeExpandedIcon
+          : args.uiParams.treeCollapsedIcon;
+        const width = item.__expanded
+          ? treeIconWidths.expanded
+          : treeIconWidths.collapsed;
+        highlights.push({
+          name: "ddu-ui-ff-tree-icon",
+          hl_group: args.uiParams.highlights?.treeIcon ?? "Special",
+          col: byteLength(text) + 1,
+          width: byteLength(icon),
+        });
+        text += icon + " ".repeat(iconWidth - width + 1);
+      } else {
+        text += " ".repeat(iconWidth + 1);
+      }
+
+      return { text, highlights };
+    };
+    const matchedHighlight = args.uiParams.highlights?.matched ?? "";
+    const getHighlights = (
+      item: DduItem,
+      itemText: TruncatedText,
+    ): ItemHighlight[] => {
+      const highlights = removeHighlightsRange(
+        item.highlights ?? [],
+        itemText.removed,
+      );
+      if (matchedHighlight == "") {
+        return highlights;
+      }
+
+      // Prefer the matched positions by the matchers
+      if (highlights.some((hl) => hl.name == "matched")) {
+        return highlights.map((hl) =>
+          hl.name == "matched" ? { ...hl, hl_group: matchedHighlight } : hl
+        );
+      }
+
+      return highlights.concat(
+        matchedHighlights(
+          itemText.text,
+          args.context.input,
+          matchedHighlight,
+        ),
+      );
+    };
     const cursorPos = args.uiParams.cursorPos >= 0 && this.refreshed
       ? args.uiParams.cursorPos
       : 0;
@@ -313,24 +562,118 @@ export class Ui extends BaseUi<Params> {
         (this.prevLength > 0 && this.items.length < this.prevLength) ||
       (args.uiParams.reversed && this.items.length != this.prevLength));
 
+    // Calculate the rendered range
+    const viewSize = args.uiParams.virtualRender
+      ? winHeight + 2 * Math.max(args.uiParams.virtualMargin, winHeight)
+      : this.items.length;
+    this.viewStart = Math.max(
+      Math.min(
+        refreshed ? cursorPos - Math.trunc(viewSize / 2) : this.viewStart,
+        this.items.length - viewSize,
+      ),
+      0,
+    );
+    const viewEnd = Math.min(this.viewStart + viewSize, this.items.length);
+    const rows: ViewRow[] = args.uiParams.groupBySource
+      ? groupRows(
+        this.items.slice(this.viewStart, viewEnd),
+        this.items,
+        this.foldedGroups,
+      )
+      : this.items.slice(this.viewStart, viewEnd);
+    const renderItems = rows.filter((row): row is DduItem =>
+      !isGroupHeader(row)
+    );
+    let renderIndex = 0;
+    const rowIndexes = rows.map((row) =>
+      isGroupHeader(row) ? -1 : renderIndex++
+    );
+    const getGroupHeaderText = (header: GroupHeader) =>
+      promptPrefix + (header.folded
+        ? args.uiParams.treeCollapsedIcon
+        : args.uiParams.treeExpandedIcon) +
+      ` ${header.sourceName} (${header.count})`;
+    const treePrefixes = renderItems.map((c) => getTreePrefix(c));
+    const columnsTexts = args.uiParams.columns.length > 0
+      ? await this.renderColumns(
+        args.denops,
+        args.uiParams,
+        args.context.input,
+        renderItems,
+      )
+      : null;
+
+    const getItemText = (item: DduItem) => {
+      const text = item.display ?? item.word;
+      return text + (
+        (item.action as ActionData)?.isDirectory && !text.endsWith("/")
+          ? "/"
+          : ""
+      );
+    };
+    let itemTexts: TruncatedText[] = renderItems.map((c) => ({
+      text: getItemText(c),
+      removed: null,
+    }));
+    if (args.uiParams.truncatePath && !columnsTexts) {
+      const prefixes = renderItems.map((c, i) =>
+        promptPrefix + getSourceName(c.__sourceName) + treePrefixes[i].text
+      );
+      const charWidths = await getCharWidths(
+        args.denops,
+        prefixes.concat(itemTexts.map((t) => t.text), [ellipsis]),
+      );
+      const wininfo = await args.denops.call(
+        "getwininfo",
+        await fn.bufwinid(args.denops, bufnr),
+      ) as { width: number; textoff?: number }[];
+      const textWidthMax = wininfo.length > 0
+        ? wininfo[0].width - (wininfo[0].textoff ?? 0)
+        : 0;
+      if (textWidthMax > 0) {
+        itemTexts = itemTexts.map((t, i) =>
+          truncatePath(
+            charWidths,
+            t.text,
+            textWidthMax - textWidth(charWidths, prefixes[i]),
+          )
+        );
+      }
+    }
+
+    // NOTE: The cursor skips the headers.  But the folded group header is
+    // not skipped to unfold it.
+    await args.denops.call(
+      "ddu#ui#ff#_update_headers",
+      bufnr,
+      rows.map((row, r) =>
+        isGroupHeader(row) && !row.folded
+          ? args.uiParams.reversed ? rows.length - r : r + 1
+          : -1
+      ).filter((lnum) => lnum > 0),
+    );
+
     // Update main buffer
     try {
       await args.denops.call(
         "ddu#ui#ff#_update_buffer",
         args.uiParams,
         bufnr,
-        this.items.map(
-          (c) =>
-            promptPrefix + `${getSourceName(c.__sourceName)}` +
-            (c.display ?? c.word) + (
-              (c.action as ActionData)?.isDirectory &&
-                !(c.display ?? c.word).endsWith("/")
-                ? "/"
-                : ""
-            ),
-        ),
+        rows.map((row, r) => {
+          if (isGroupHeader(row)) {
+            return getGroupHeaderText(row);
+          }
+
+          const i = rowIndexes[r];
+          return columnsTexts
+            ? promptPrefix + treePrefixes[i].text + columnsTexts[i].text
+            : promptPrefix + `${getSourceName(row.__sourceName)}` +
+              treePrefixes[i].text + itemTexts[i].text;
+        }),
         refreshed,
-        cursorPos,
+        args.uiParams.groupBySource
+          ? Math.max(rows.indexOf(this.items[cursorPos]), 0)
+          : cursorPos - this.viewStart,
       );
     } catch (e) {
       await errorException(
@@ -341,24 +684,69 @@ export class Ui extends BaseUi<Params> {
       return;
     }
 
-    this.viewItems = Array.from(this.items);
+    this.viewItems = Array.from(rows);
     if (args.uiParams.reversed) {
       this.viewItems = this.viewItems.reverse();
     }
 
+    await args.denops.call(
+      "ddu#ui#ff#_update_virtual",
+      bufnr,
+      args.uiParams.virtualRender
+        ? {
+          offset: args.uiParams.reversed
+            ? this.items.length - viewEnd
+            : this.viewStart,
+          max: this.items.length,
+        }
+        : {},
+    );
+
     await args.denops.call(
       "ddu#ui#ff#_highlight_items",
       args.uiParams,
       bufnr,
-      this.items.length,
-      this.items.map((c, i) => {
-        return {
-          highlights: c.highlights ?? [],
-          row: i + 1,
-          prefix: promptPrefix + `${getSourceName(c.__sourceName)}`,
-        };
-      }).filter((c) => c.highlights),
-      [...this.selectedItems],
+      rows.length,
+      rows.flatMap((row, r) => {
+        if (isGroupHeader(row)) {
+          const headerText = getGroupHeaderText(row);
+          return [
+            {
+              highlights: [{
+                name: "ddu-ui-ff-group",
+                hl_group: args.uiParams.highlights?.group ?? "Title",
+                col: 1,
+                width: byteLength(headerText) - promptPrefix.length,
+              }],
+              row: r + 1,
+              prefix: promptPrefix,
+            },
+          ];
+        }
+
+        const i = rowIndexes[r];
+        const prefix = columnsTexts
+          ? promptPrefix
+          : promptPrefix + `${getSourceName(row.__sourceName)}`;
+        return [
+          {
+            highlights: treePrefixes[i].highlights,
+            row: r + 1,
+            prefix,
+          },
+          {
+            // NOTE: The source highlights are for the word.
+            highlights: columnsTexts
+              ? columnsTexts[i].highlights
+              : getHighlights(row, itemTexts[i]),
+            row: r + 1,
+            prefix: prefix + treePrefixes[i].text,
+          },
+        ];
+      }).filter((c) => c.highlights.length != 0),
+      rows.map((row, r) =>
+        !isGroupHeader(row) && this.selectedItems.has(selectKey(row)) ? r : -1
+      ).filter((r) => r >= 0),
     );
 
     // Save cursor when cursor moved
@@ -384,7 +772,20 @@ export class Ui extends BaseUi<Params> {
         currentText = buflines[0];
       }
     }
-    if (
+    if (this.viewCursor) {
+      // Restore the cursor position after the rendered range is moved
+      const lnum = this.itemLine(this.viewCursor.index);
+      if (lnum > 0) {
+        await fn.win_execute(
+          args.denops,
+          await fn.bufwinid(args.denops, bufnr),
+          `call winrestview({'lnum': ${lnum}, 'topline': ${
+            Math.max(lnum - this.viewCursor.row, 1)
+          }})`,
+        );
+      }
+      this.viewCursor = null;
+    } else if (
       saveCursor.pos.length != 0 && this.items.length != 0 &&
       currentText == saveCursor.text
     ) {
@@ -412,6 +813,61 @@ export class Ui extends BaseUi<Params> {
     this.buffers[args.options.name] = bufnr;
 
     this.refreshed = false;
+
+    if (this.searchParentPath != "") {
+      // Move the cursor to the path or the nearest parent.
+      let path = this.searchParentPath;
+      this.searchParentPath = "";
+      while (1) {
+        const pos = this.items.findIndex(
+          (item) => path == ((item?.action as ActionData)?.path ?? item.word),
+        );
+        if (pos >= 0) {
+          await this.cursorItem(args.denops, pos);
+          break;
+        }
+
+        if (path == dirname(path)) {
+          break;
+        }
+
+        path = dirname(path);
+      }
+    }
+
+    if (args.uiParams.restoreExpandedPaths) {
+      if (args.context.done) {
+        await this.restoreExpandedPaths(
+          args.denops,
+          args.options,
+          args.uiParams,
+        );
+      }
+
+      // NOTE: The expanded paths must not be saved while restoring.  Because
+      // they are incomplete.
+      if (this.expandedPathsChanged && !this.restoring) {
+        await this.saveExpandedPaths(
+          args.denops,
+          args.options,
+          args.uiParams,
+        );
+      }
+    }
+
+    if (
+      !this.startPathRevealed && args.uiParams.startPath != "" &&
+      args.context.done
+    ) {
+      // NOTE: It must be revealed only once.  Because the tree expansion
+      // redraws the UI.
+      this.startPathRevealed = true;
+      await this.revealPath(
+        args.denops,
+        args.options,
+        args.uiParams.startPath,
+      );
+    }
   }
 
   async quit(args: {
@@ -422,9 +878,21 @@ export class Ui extends BaseUi<Params> {
   }): Promise<void> {
     await this.previewUi.close(args.denops);
     await this.closeFilterWindow(args.denops);
+    this.stats.clear();
+
+    // Stop redrawing the closed UI when the screen is resized
+    await args.denops.cmd(
+      `augroup ddu-ui-ff-resize-${args.options.name} | autocmd! | augroup END`,
+    );
 
     // Move to the UI window.
     const bufnr = this.buffers[args.options.name];
+    const saveTitle = await fn.getbufvar(
+      args.denops,
+      bufnr,
+      "ddu_ui_ff_save_title",
+      "",
+    ) as string;
     await fn.win_gotoid(
       args.denops,
       await fn.bufwinid(args.denops, bufnr),
@@ -446,17 +914,13 @@ export class Ui extends BaseUi<Params> {
     }
 
     // Restore options
-    const saveTitle = await vars.g.get(
-      args.denops,
-      "ddu#ui#ff#_save_title",
-      "",
-    );
     if (saveTitle != "") {
       args.denops.call(
         "nvim_set_option",
         "titlestring",
         saveTitle,
       );
+      await fn.setbufvar(args.denops, bufnr, "ddu_ui_ff_save_title", "");
     }
 
     // Restore mode
@@ -499,11 +963,10 @@ export class Ui extends BaseUi<Params> {
       this.items[index] = args.parent;
       const path = (args.parent.action as ActionData).path ?? args.parent.word;
       this.expandedPaths.add(path);
+      this.expandedPathsChanged = true;
     } else {
       this.items = this.items.concat(insertItems);
     }
-
-    this.selectedItems.clear();
   }
 
   // deno-lint-ignore require-await
@@ -542,8 +1005,167 @@ export class Ui extends BaseUi<Params> {
     this.items[startIndex] = args.item;
     const path = (args.item.action as ActionData).path ?? args.item.word;
     this.expandedPaths.delete(path);
+    this.expandedPathsChanged = true;
+  }
+
+  private toggleSelect(item: DduItem) {
+    const key = selectKey(item);
+    if (this.selectedItems.has(key)) {
+      this.selectedItems.delete(key);
+    } else {
+      this.selectedItems.set(key, item);
+    }
+  }
+
+  private itemLine(index: number): number {
+    // NOTE: viewItems are ordered by the buffer lines
+    return this.viewItems.indexOf(this.items[index]) + 1;
+  }
+
+  private async cursorItem(
+    denops: Denops,
+    index: number,
+  ): Promise<void> {
+    const lnum = this.itemLine(index);
+    if (lnum > 0) {
+      await fn.cursor(denops, lnum, 0);
+      await denops.cmd("normal! zz");
+      return;
+    }
+
+    // The item is not rendered.  Move the rendered range and redraw.
+    const name = await vars.b.get(denops, "ddu_ui_name", "");
+    if (name == "") {
+      return;
+    }
+    this.viewStart = index - Math.trunc(this.viewItemsLength() / 2);
+    this.viewCursor = {
+      index,
+      row: Math.trunc((await fn.winheight(denops, 0)) / 2),
+    };
+    await denops.call("ddu#redraw", name);
+  }
+
+  private async revealPath(
+    denops: Denops,
+    options: DduOptions,
+    path: string,
+  ): Promise<void> {
+    const pos = this.items.findIndex(
+      (item) => path == ((item?.action as ActionData)?.path ?? item.word),
+    );
+    if (pos >= 0) {
+      await this.cursorItem(denops, pos);
+      return;
+    }
+
+    // Expand the parent directories.
+    // The cursor is moved to the path by searchPath() after expanded.
+    const expandItem = this.expandPath(path);
+    if (expandItem) {
+      await denops.call(
+        "ddu#redraw_tree",
+        options.name,
+        "expand",
+        [expandItem],
+      );
+    }
+  }
+
+  private async saveExpandedPaths(
+    denops: Denops,
+    options: DduOptions,
+    uiParams: Params,
+  ): Promise<void> {
+    const paths = [...this.expandedPaths];
+
+    const savedPaths = await vars.g.get(
+      denops,
+      "ddu#ui#ff#_expanded_paths",
+      {},
+    ) as Record<string, string[]>;
+    savedPaths[options.name] = paths;
+    await vars.g.set(denops, "ddu#ui#ff#_expanded_paths", savedPaths);
+
+    if (uiParams.expandedPathsDir != "") {
+      const dir = await fn.expand(denops, uiParams.expandedPathsDir) as string;
+      try {
+        await Deno.mkdir(dir, { recursive: true });
+        await Deno.writeTextFile(
+          join(dir, `${options.name}.json`),
+          JSON.stringify(paths),
+        );
+      } catch (e) {
+        await errorException(
+          denops,
+          e,
+          "[ddu-ui-ff] save expanded paths failed",
+        );
+      }
+    }
+
+    this.expandedPathsChanged = false;
+  }
+
+  private async restoreExpandedPaths(
+    denops: Denops,
+    options: DduOptions,
+    uiParams: Params,
+  ): Promise<void> {
+    if (!this.restorePaths) {
+      // Load the saved paths
+      const savedPaths = await vars.g.get(
+        denops,
+        "ddu#ui#ff#_expanded_paths",
+        {},
+      ) as Record<string, string[]>;
+      let paths = savedPaths[options.name];
+      if (!paths && uiParams.expandedPathsDir != "") {
+        const dir = await fn.expand(
+          denops,
+          uiParams.expandedPathsDir,
+        ) as string;
+        try {
+          paths = JSON.parse(
+            await Deno.readTextFile(join(dir, `${options.name}.json`)),
+          );
+        } catch (_e: unknown) {
+          // Ignore
+        }
+      }
+
+      this.restorePaths = new Set(paths ?? []);
+      this.restoring = true;
+    }
+
+    // NOTE: The children are expanded after the parent is expanded.
+    // So it must be called repeatedly when redraw.
+    const expandItems: ExpandItem[] = [];
+    for (const item of this.items) {
+      const path = (item.action as ActionData)?.path ?? item.word;
+      if (!this.restorePaths.has(path)) {
+        continue;
+      }
+
+      this.restorePaths.delete(path);
+      if (!item.__expanded && (item.action as ActionData)?.isDirectory) {
+        expandItems.push({ item });
+      }
+    }
+
+    if (expandItems.length == 0) {
+      // The restore is finished.  The remaining paths do not exist.
+      this.restorePaths.clear();
+      this.restoring = false;
+      return;
+    }
 
-    this.selectedItems.clear();
+    await denops.call(
+      "ddu#redraw_tree",
+      options.name,
+      "expand",
+      expandItems,
+    );
   }
 
   private async getItem(
@@ -553,17 +1175,29 @@ export class Ui extends BaseUi<Params> {
     return idx >= 0 ? this.items[idx] : null;
   }
 
-  private async getItems(denops: Denops): Promise<DduItem[]> {
-    let items: DduItem[];
-    if (this.selectedItems.size == 0) {
+  private getSelectedItems(uiParams: Params): DduItem[] {
+    const items = [...this.selectedItems.values()];
+    if (!uiParams.dropFilteredSelection) {
+      return items;
+    }
+
+    // Drop the selected items which are filtered out
+    const keys = new Set(this.items.map((item) => selectKey(item)));
+    return items.filter((item) => keys.has(selectKey(item)));
+  }
+
+  private async getItems(
+    denops: Denops,
+    uiParams: Params,
+  ): Promise<DduItem[]> {
+    let items = this.getSelectedItems(uiParams);
+    if (items.length == 0) {
       const item = await this.getItem(denops);
       if (!item) {
         return [];
       }
 
       items = [item];
-    } else {
-      items = [...this.selectedItems].map((i) => this.items[i]);
     }
 
     return items.filter((item) => item);
@@ -584,6 +1218,8 @@ export class Ui extends BaseUi<Params> {
       input: context.input,
       name: options.name,
       maxItems: context.maxItems,
+      truncated: this.truncated,
+      selected: this.selectedItems.size,
     };
     await fn.setwinvar(
       denops,
@@ -597,24 +1233,32 @@ export class Ui extends BaseUi<Params> {
     }
 
     const header =
-      `[ddu-${options.name}] ${this.items.length}/${context.maxItems}`;
-    const linenr = "printf('%'.(len(line('$'))+2).'d/%d',line('.'),line('$'))";
+      `[ddu-${options.name}] ${this.items.length}/${context.maxItems}` +
+      `${this.truncated ? " [truncated]" : ""}`;
+    const linenr = uiParams.virtualRender
+      ? `printf('%'.(len(${this.items.length})+2).'d/%d',` +
+        `line('.')+get(b:,'ddu_ui_ff_virtual',{'offset':0}).offset,` +
+        `${this.items.length})`
+      : "printf('%'.(len(line('$'))+2).'d/%d',line('.'),line('$'))";
     const async = `${context.done ? "" : "[async]"}`;
     const laststatus = await op.laststatus.get(denops);
 
     if (hasNvim && (floating || laststatus == 0)) {
-      if ((await vars.g.get(denops, "ddu#ui#ff#_save_title", "")) == "") {
+      // NOTE: The title is saved per buffer for the other UIs
+      if (
+        (await fn.getbufvar(denops, bufnr, "ddu_ui_ff_save_title", "")) == ""
+      ) {
         const saveTitle = await denops.call(
           "nvim_get_option",
           "titlestring",
         ) as string;
-        await vars.g.set(denops, "ddu#ui#ff#_save_title", saveTitle);
+        await fn.setbufvar(denops, bufnr, "ddu_ui_ff_save_title", saveTitle);
       }
 
       if (await fn.exists(denops, "##WinClosed")) {
         await denops.cmd(
           `autocmd ${augroupName} WinClosed,BufLeave <buffer>` +
-            " let &titlestring=g:ddu#ui#ff#_save_title",
+            ` let &titlestring=getbufvar(${bufnr}, 'ddu_ui_ff_save_title')`,
         );
       }
 
@@ -672,6 +1316,13 @@ export class Ui extends BaseUi<Params> {
     return ActionFlags.None;
   }
 
+  private async saveCursorPath(denops: Denops) {
+    const item = await this.getItem(denops);
+    this.searchParentPath = item
+      ? (item.action as ActionData)?.path ?? item.word
+      : "";
+  }
+
   actions: UiActions<Params> = {
     chooseAction: async (args: {
       denops: Denops;
@@ -680,11 +1331,12 @@ export class Ui extends BaseUi<Params> {
     }) => {
       await this.closeFilterWindow(args.denops);
 
-      const items = await this.getItems(args.denops);
+      const items = await this.getItems(args.denops, args.uiParams);
       if (items.length == 0) {
         return ActionFlags.None;
       }
 
+      // NOTE: The selection is kept because the action may be cancelled.
       const actions = await args.denops.call(
         "ddu#get_item_actions",
         args.options.name,
@@ -716,6 +1368,61 @@ export class Ui extends BaseUi<Params> {
       this.selectedItems.clear();
       return ActionFlags.Redraw;
     },
+    collapseAllItems: async (args: {
+      denops: Denops;
+      options: DduOptions;
+    }) => {
+      const collapseItems = this.items.filter(
+        (item) =>
+          item.__level == 0 && item.__expanded &&
+          (item.action as ActionData)?.isDirectory,
+      );
+      if (collapseItems.length == 0) {
+        return ActionFlags.None;
+      }
+
+      await this.saveCursorPath(args.denops);
+
+      // NOTE: The children are collapsed with the root items.
+      this.expandedPaths.clear();
+      this.expandedPathsChanged = true;
+
+      await args.denops.call(
+        "ddu#redraw_tree",
+        args.options.name,
+        "collapse",
+        collapseItems.map((item) => ({ item })),
+      );
+
+      return ActionFlags.None;
+    },
+    expandAllItems: async (args: {
+      denops: Denops;
+      options: DduOptions;
+      actionParams: unknown;
+    }) => {
+      const params = args.actionParams as ExpandItemParams;
+      const expandItems = this.items.filter(
+        (item) => !item.__expanded && (item.action as ActionData)?.isDirectory,
+      );
+      if (expandItems.length == 0) {
+        return ActionFlags.None;
+      }
+
+      await this.saveCursorPath(args.denops);
+
+      await args.denops.call(
+        "ddu#redraw_tree",
+        args.options.name,
+        "expand",
+        expandItems.map((item) => ({
+          item,
+          maxLevel: params.maxLevel ?? 0,
+        })),
+      );
+
+      return ActionFlags.None;
+    },
     expandItem: async (args: {
       denops: Denops;
       options: DduOptions;
@@ -745,6 +1452,42 @@ export class Ui extends BaseUi<Params> {
 
       return ActionFlags.None;
     },
+    getItem: async (args: {
+      denops: Denops;
+      options: DduOptions;
+    }) => {
+      const bufnr = this.buffers[args.options.name];
+
+      // NOTE: It may be called from other windows.  Use the UI window cursor.
+      const ft = await op.filetype.getLocal(args.denops);
+      let item: DduItem | null = null;
+      if (ft == "ddu-ff" || ft == "ddu-ff-filter") {
+        item = await this.getItem(args.denops);
+      } else {
+        const winid = await fn.bufwinid(args.denops, bufnr);
+        if (winid > 0) {
+          const lnum = await args.denops.call("line", ".", winid) as number;
+          item = this.items[this.lineToIndex(lnum)] ?? null;
+        }
+      }
+      await fn.setbufvar(args.denops, bufnr, "ddu_ui_item", item ?? {});
+
+      return ActionFlags.None;
+    },
+    getSelectedItems: async (args: {
+      denops: Denops;
+      options: DduOptions;
+      uiParams: Params;
+    }) => {
+      await fn.setbufvar(
+        args.denops,
+        this.buffers[args.options.name],
+        "ddu_ui_selected_items",
+        this.getSelectedItems(args.uiParams),
+      );
+
+      return ActionFlags.None;
+    },
     itemAction: async (args: {
       denops: Denops;
       options: DduOptions;
@@ -752,11 +1495,16 @@ export class Ui extends BaseUi<Params> {
       actionParams: unknown;
     }) => {
       const params = args.actionParams as DoActionParams;
-      const items = params.items ?? await this.getItems(args.denops);
+      const items = params.items ??
+        await this.getItems(args.denops, args.uiParams);
       if (items.length == 0) {
         return ActionFlags.None;
       }
 
+      // NOTE: The selected items are consumed by the action.  The items may
+      // be removed by the action.
+      this.selectedItems.clear();
+
       await args.denops.call(
         "ddu#item_action",
         args.options.name,
@@ -802,6 +1550,9 @@ export class Ui extends BaseUi<Params> {
         return ActionFlags.None;
       }
 
+      // NOTE: The preview window is placed by the evaluated UI window position
+      await this.setDefaultParams(args.denops, args.uiParams);
+
       return this.previewUi.previewContents(
         args.denops,
         args.context,
@@ -833,6 +1584,15 @@ export class Ui extends BaseUi<Params> {
 
       return ActionFlags.Persist;
     },
+    previewScroll: async (args: {
+      denops: Denops;
+      actionParams: unknown;
+    }) => {
+      const params = args.actionParams as PreviewScrollParams;
+      await this.previewUi.scroll(args.denops, params.mode ?? "halfDown");
+
+      return ActionFlags.None;
+    },
     quit: async (args: {
       denops: Denops;
       context: Context;
@@ -853,8 +1613,27 @@ export class Ui extends BaseUi<Params> {
     refreshItems: async (_: {
       denops: Denops;
     }) => {
+      this.stats.clear();
       return ActionFlags.RefreshItems;
     },
+    revealPath: async (args: {
+      denops: Denops;
+      context: Context;
+      options: DduOptions;
+      actionParams: unknown;
+    }) => {
+      const params = args.actionParams as RevealPathParams;
+      const bufname = await fn.bufname(args.denops, args.context.bufNr);
+      const path = params.path ??
+        (bufname == "" ? "" : await fn.fnamemodify(args.denops, bufname, ":p"));
+      if (path == "") {
+        return ActionFlags.None;
+      }
+
+      await this.revealPath(args.denops, args.options, path);
+
+      return ActionFlags.None;
+    },
     // deno-lint-ignore require-await
     toggleAllItems: async (_: {
       denops: Denops;
@@ -865,13 +1644,24 @@ export class Ui extends BaseUi<Params> {
         return ActionFlags.None;
       }
 
-      this.items.forEach((_, idx) => {
-        if (this.selectedItems.has(idx)) {
-          this.selectedItems.delete(idx);
-        } else {
-          this.selectedItems.add(idx);
-        }
-      });
+      this.items.forEach((item) => this.toggleSelect(item));
+
+      return ActionFlags.Redraw;
+    },
+    toggleGroup: async (args: {
+      denops: Denops;
+    }) => {
+      // NOTE: It works on the group header and the items in the group.
+      const group = this.lineToGroup(await this.getLine(args.denops, "."));
+      if (group < 0) {
+        return ActionFlags.None;
+      }
+
+      if (this.foldedGroups.has(group)) {
+        this.foldedGroups.delete(group);
+      } else {
+        this.foldedGroups.add(group);
+      }
 
       return ActionFlags.Redraw;
     },
@@ -885,10 +1675,36 @@ export class Ui extends BaseUi<Params> {
         return ActionFlags.None;
       }
 
-      if (this.selectedItems.has(idx)) {
-        this.selectedItems.delete(idx);
-      } else {
-        this.selectedItems.add(idx);
+      this.toggleSelect(this.items[idx]);
+
+      return ActionFlags.Redraw;
+    },
+    toggleSelectRange: async (args: {
+      denops: Denops;
+      options: DduOptions;
+      uiParams: Params;
+      actionParams: unknown;
+    }) => {
+      const params = args.actionParams as ToggleSelectRangeParams;
+      const start = params.start ?? await this.getLine(args.denops, "'<");
+      const end = params.end ?? await this.getLine(args.denops, "'>");
+      if (start <= 0 || end <= 0) {
+        return ActionFlags.None;
+      }
+
+      // NOTE: The lines are mapped to the items by viewItems.
+      // It is reversed order if "reversed" param is set.
+      for (
+        let lnum = Math.min(start, end);
+        lnum <= Math.max(start, end);
+        lnum++
+      ) {
+        const idx = this.lineToIndex(lnum);
+        if (idx < 0) {
+          continue;
+        }
+
+        this.toggleSelect(this.items[idx]);
       }
 
       return ActionFlags.Redraw;
@@ -903,34 +1719,88 @@ export class Ui extends BaseUi<Params> {
       });
       return ActionFlags.None;
     },
+    updateVirtualView: async (args: {
+      denops: Denops;
+      options: DduOptions;
+      uiParams: Params;
+      actionParams: unknown;
+    }) => {
+      if (!args.uiParams.virtualRender || this.items.length == 0) {
+        return ActionFlags.None;
+      }
+
+      // NOTE: The buffer lines are reversed if "reversed" param is set.
+      const params = args.actionParams as UpdateVirtualViewParams;
+      const lastIndex = this.items.length - 1;
+      const idx = params.position == "top"
+        ? (args.uiParams.reversed ? lastIndex : 0)
+        : params.position == "bottom"
+        ? (args.uiParams.reversed ? 0 : lastIndex)
+        : await this.getIndex(args.denops);
+      if (idx < 0) {
+        return ActionFlags.None;
+      }
+
+      // Move the rendered range to the center of the cursor item
+      const winid = await fn.bufwinid(
+        args.denops,
+        this.buffers[args.options.name],
+      );
+      this.viewStart = idx - Math.trunc(this.viewItemsLength() / 2);
+      this.viewCursor = {
+        index: idx,
+        row: (await args.denops.call("line", ".", winid) as number) -
+          (await args.denops.call("line", "w0", winid) as number),
+      };
+
+      return ActionFlags.Redraw;
+    },
   };
 
   params(): Params {
     return {
       autoAction: {},
       autoResize: false,
+      columns: [],
       cursorPos: -1,
       displaySourceName: "no",
+      displayTree: false,
+      dropFilteredSelection: false,
+      expandedPathsDir: "",
       filterFloatingPosition: "bottom",
       filterSplitDirection: "botright",
       filterUpdateTime: 0,
       floatingBorder: "none",
+      groupBySource: false,
       highlights: {},
       ignoreEmpty: false,
+      maxDisplayItems: 1000,
+      previewCacheSize: 0,
       previewCol: 0,
       previewFloating: false,
       previewHeight: 10,
+      previewLayout: "",
       previewRow: 0,
       previewVertical: false,
       previewWidth: 40,
       previewFloatingBorder: "none",
       previewFloatingZindex: 50,
       prompt: "",
+      restoreExpandedPaths: false,
       reversed: false,
+      selectedMarker: "",
       split: "horizontal",
       splitDirection: "botright",
       startFilter: false,
+      startPath: "",
       statusline: true,
+      treeCollapsedIcon: "+",
+      treeExpandedIcon: "-",
+      treeGuide: "",
+      treeIndent: 2,
+      truncatePath: false,
+      virtualMargin: 100,
+      virtualRender: false,
       winCol: 0,
       winHeight: 20,
       winRow: 0,
@@ -967,10 +1837,14 @@ export class Ui extends BaseUi<Params> {
       await fn.setwinvar(denops, winid, "&foldenable", 0);
       await fn.setwinvar(denops, winid, "&number", 0);
       await fn.setwinvar(denops, winid, "&relativenumber", 0);
-      await fn.setwinvar(denops, winid, "&signcolumn", "no");
       await fn.setwinvar(denops, winid, "&spell", 0);
       await fn.setwinvar(denops, winid, "&wrap", 0);
-      await fn.setwinvar(denops, winid, "&signcolumn", "no");
+      await fn.setwinvar(
+        denops,
+        winid,
+        "&signcolumn",
+        uiParams.selectedMarker != "" ? "yes" : "no",
+      );
 
       await fn.setbufvar(denops, bufnr, "&bufhidden", "unload");
       await fn.setbufvar(denops, bufnr, "&buftype", "nofile");
@@ -986,35 +1860,191 @@ export class Ui extends BaseUi<Params> {
   }
 
   private async setDefaultParams(denops: Denops, uiParams: Params) {
-    if (uiParams.winRow == 0) {
-      uiParams.winRow = Math.trunc(
-        (await denops.call("eval", "&lines") as number) / 2 - 10,
-      );
-    }
-    if (uiParams.winCol == 0) {
-      uiParams.winCol = Math.trunc(
-        (await op.columns.getGlobal(denops)) / 4,
-      );
-    }
+    const columns = await op.columns.getGlobal(denops);
+    const lines = (await denops.call("eval", "&lines") as number) -
+      (await op.cmdheight.getGlobal(denops));
+    const evalSize = async (value: number | string, base: number) =>
+      await denops.call("ddu#ui#ff#_eval_size", value, base) as number;
+
+    uiParams.winWidth = await evalSize(uiParams.winWidth, columns);
     if (uiParams.winWidth == 0) {
-      uiParams.winWidth = Math.trunc((await op.columns.getGlobal(denops)) / 2);
+      uiParams.winWidth = Math.trunc(columns / 2);
+    }
+    uiParams.winHeight = await evalSize(uiParams.winHeight, lines);
+
+    if (uiParams.split != "floating") {
+      uiParams.winRow = await evalSize(uiParams.winRow, lines);
+      uiParams.winCol = await evalSize(uiParams.winCol, columns);
+      return;
     }
+
+    // Keep the floating window in the screen
+    const border = uiParams.floatingBorder == "none" ? 0 : 2;
+    uiParams.winWidth = Math.max(
+      1,
+      Math.min(uiParams.winWidth, columns - border),
+    );
+    uiParams.winHeight = Math.max(
+      1,
+      Math.min(uiParams.winHeight, lines - border),
+    );
+
+    // Center the floating window by default
+    uiParams.winRow = uiParams.winRow == 0
+      ? Math.trunc((lines - uiParams.winHeight - border) / 2)
+      : await evalSize(uiParams.winRow, lines);
+    uiParams.winCol = uiParams.winCol == 0
+      ? Math.trunc((columns - uiParams.winWidth - border) / 2)
+      : await evalSize(uiParams.winCol, columns);
+    uiParams.winRow = Math.max(
+      0,
+      Math.min(uiParams.winRow, lines - uiParams.winHeight - border),
+    );
+    uiParams.winCol = Math.max(
+      0,
+      Math.min(uiParams.winCol, columns - uiParams.winWidth - border),
+    );
+  }
+
+  private async renderColumns(
+    denops: Denops,
+    uiParams: Params,
+    input: string,
+    items: DduItem[],
+  ): Promise<ColumnsText[]> {
+    const columns = uiParams.columns;
+    const cwd = await fn.getcwd(denops) as string;
+
+    const useStat = columns.some((column) =>
+      column.name == "size" || column.name == "mtime"
+    );
+    const paths = items.map((item) => {
+      const path = (item.action as ActionData)?.path;
+      return path ? resolve(cwd, path) : "";
+    });
+    const stats = await Promise.all(paths.map(async (path) => {
+      if (!useStat || path == "") {
+        return null;
+      }
+
+      // Reuse the stats until the items are refreshed
+      if (!this.stats.has(path)) {
+        let stat: Deno.FileInfo | null = null;
+        try {
+          stat = await Deno.stat(path);
+        } catch (_e: unknown) {
+          // Ignore
+        }
+        this.stats.set(path, stat);
+      }
+      return this.stats.get(path) ?? null;
+    }));
+
+    const cells = columns.map((column) =>
+      items.map((item, i) =>
+        getColumnValue(column, item, paths[i], stats[i], cwd)
+      )
+    );
+    const charWidths = await getCharWidths(
+      denops,
+      cells.flat().concat([ellipsis]),
+    );
+    const columnWidths = columns.map((column, i) =>
+      column.width && column.width > 0 ? column.width : cells[i].reduce(
+        (width, cell) => Math.max(width, textWidth(charWidths, cell)),
+        0,
+      )
+    );
+
+    const matchedHighlight = uiParams.highlights?.matched ?? "";
+
+    return items.map((_, i) => {
+      // NOTE: highlight col and width are byte index.
+      const highlights: ItemHighlight[] = [];
+      let text = "";
+      columns.forEach((column, j) => {
+        if (j > 0) {
+          text += " ";
+        }
+
+        const cell = truncateText(charWidths, cells[j][i], columnWidths[j]);
+        const padding = " ".repeat(
+          Math.max(columnWidths[j] - textWidth(charWidths, cell), 0),
+        );
+        if (column.name == "size") {
+          // Align to right
+          text += padding;
+        }
+
+        const col = byteLength(text) + 1;
+        const hlGroup = column.highlight ??
+          defaultColumnHighlights[column.name];
+        if (hlGroup != "" && cell != "") {
+          highlights.push({
+            name: `ddu-ui-ff-column-${column.name}`,
+            hl_group: hlGroup,
+            col,
+            width: byteLength(cell),
+          });
+        }
+        if (
+          matchedHighlight != "" &&
+          (column.name == "filename" || column.name == "directory")
+        ) {
+          for (const hl of matchedHighlights(cell, input, matchedHighlight)) {
+            highlights.push({ ...hl, col: hl.col + col - 1 });
+          }
+        }
+
+        text += cell;
+        if (column.name != "size" && j < columns.length - 1) {
+          text += padding;
+        }
+      });
+
+      return { text, highlights };
+    });
   }
 
   private async getIndex(
     denops: Denops,
+  ): Promise<number> {
+    return this.lineToIndex(await this.getLine(denops, "."));
+  }
+
+  private async getLine(
+    denops: Denops,
+    expr: string,
   ): Promise<number> {
     const ft = await op.filetype.getLocal(denops);
-    const parentId = await vars.g.get(
+    const parentId = await vars.b.get(
       denops,
-      "ddu#ui#ff#_filter_parent_winid",
+      "ddu_ui_ff_filter_parent_winid",
       -1,
     );
 
-    const idx = ft == "ddu-ff"
-      ? (await fn.line(denops, ".")) - 1
-      : (await denops.call("line", ".", parentId) as number) - 1;
-    const viewItem = this.viewItems[idx];
+    return ft == "ddu-ff"
+      ? await fn.line(denops, expr)
+      : await denops.call("line", expr, parentId) as number;
+  }
+
+  private viewItemsLength(): number {
+    // NOTE: The group headers are not counted in the rendered range
+    return this.viewItems.filter((row) => !isGroupHeader(row)).length;
+  }
+
+  private lineToGroup(lnum: number): number {
+    const viewItem = this.viewItems[lnum - 1];
+    if (!viewItem) {
+      return -1;
+    }
+    return isGroupHeader(viewItem)
+      ? viewItem.sourceIndex
+      : viewItem.__sourceIndex;
+  }
+
+  private lineToIndex(lnum: number): number {
+    const viewItem = this.viewItems[lnum - 1];
     return this.items.findIndex(
       (item: DduItem) => item == viewItem,
     );
@@ -1028,7 +2058,7 @@ export class Ui extends BaseUi<Params> {
     let maxLevel = 0;
     while (1) {
       item = this.items.find(
-        (item) => parent == (item?.action as ActionData).path ?? item.word,
+        (item) => parent == ((item?.action as ActionData)?.path ?? item.word),
       );
 
       if (parent == dirname(parent) || item) {
@@ -1044,6 +2074,304 @@ export class Ui extends BaseUi<Params> {
   }
 }
 
+const ellipsis = "…";
+
+const defaultColumnHighlights: Record<ColumnName, string> = {
+  icon: "Special",
+  source: "Type",
+  filename: "",
+  directory: "Comment",
+  size: "Number",
+  mtime: "Comment",
+};
+
+function getColumnValue(
+  column: Column,
+  item: DduItem,
+  path: string,
+  stat: Deno.FileInfo | null,
+  cwd: string,
+): string {
+  const action = item.action as ActionData;
+
+  if (column.name == "icon") {
+    return action?.isDirectory
+      ? column.directoryIcon ?? "+"
+      : column.fileIcon ?? " ";
+  } else if (column.name == "source") {
+    return item.__sourceName;
+  } else if (column.name == "filename") {
+    const name = path != "" ? basename(path) : item.display ?? item.word;
+    return name + (action?.isDirectory && !name.endsWith("/") ? "/" : "");
+  } else if (column.name == "directory") {
+    return path != "" ? relative(cwd, dirname(path)) : "";
+  } else if (column.name == "size") {
+    return stat?.isFile ? formatSize(stat.size) : "";
+  } else if (column.name == "mtime") {
+    return stat?.mtime ? formatTime(stat.mtime) : "";
+  }
+
+  return "";
+}
+
+function formatSize(size: number): string {
+  const units = ["B", "K", "M", "G", "T"];
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return unit == 0
+    ? `${size}${units[unit]}`
+    : `${size.toFixed(1)}${units[unit]}`;
+}
+
+function formatTime(time: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${time.getFullYear()}-${pad(time.getMonth() + 1)}-` +
+    `${pad(time.getDate())} ${pad(time.getHours())}:${pad(time.getMinutes())}`;
+}
+
+async function getCharWidths(
+  denops: Denops,
+  texts: string[],
+): Promise<Map<string, number>> {
+  // NOTE: strwidth() depends on 'ambiwidth'.  It is called only once for each
+  // character.
+  const chars = [...new Set(texts.flatMap((text) => Array.from(text)))];
+  const widths = await denops.call("map", chars, "strwidth(v:val)") as number[];
+  return new Map(chars.map((c, i) => [c, widths[i]]));
+}
+
+function textWidth(charWidths: Map<string, number>, text: string): number {
+  return Array.from(text).reduce(
+    (width, c) => width + (charWidths.get(c) ?? 1),
+    0,
+  );
+}
+
+function truncateText(
+  charWidths: Map<string, number>,
+  text: string,
+  width: number,
+): string {
+  if (textWidth(charWidths, text) <= width) {
+    return text;
+  }
+
+  const ellipsisWidth = charWidths.get(ellipsis) ?? 1;
+  let result = "";
+  let resultWidth = 0;
+  for (const c of text) {
+    const charWidth = charWidths.get(c) ?? 1;
+    if (resultWidth + charWidth + ellipsisWidth > width) {
+      break;
+    }
+    result += c;
+    resultWidth += charWidth;
+  }
+
+  return width >= ellipsisWidth ? result + ellipsis : result;
+}
+
+function truncatePath(
+  charWidths: Map<string, number>,
+  text: string,
+  width: number,
+): TruncatedText {
+  if (textWidth(charWidths, text) <= width) {
+    return { text, removed: null };
+  }
+
+  // NOTE: The basename is kept.  The middle of the directory is removed.
+  const chars = Array.from(text);
+  const sep = chars.lastIndexOf("/", chars.length - 2);
+  if (sep <= 0) {
+    return { text, removed: null };
+  }
+  const head = chars.slice(0, sep);
+  const tail = chars.slice(sep).join("");
+
+  let rest = width - textWidth(charWidths, tail) -
+    (charWidths.get(ellipsis) ?? 1);
+  let start = 0;
+  let end = head.length;
+  let fromStart = true;
+  while (start < end) {
+    const charWidth = charWidths.get(head[fromStart ? start : end - 1]) ?? 1;
+    if (charWidth > rest) {
+      break;
+    }
+    rest -= charWidth;
+    if (fromStart) {
+      start++;
+    } else {
+      end--;
+    }
+    fromStart = !fromStart;
+  }
+
+  const prefix = head.slice(0, start).join("");
+  const suffix = head.slice(end).join("");
+  const removedStart = byteLength(prefix);
+  return {
+    text: prefix + ellipsis + suffix + tail,
+    removed: [
+      removedStart,
+      removedStart + byteLength(head.slice(start, end).join("")),
+    ],
+  };
+}
+
+function removeHighlightsRange(
+  highlights: ItemHighlight[],
+  removed: [number, number] | null,
+): ItemHighlight[] {
+  if (!removed) {
+    return highlights;
+  }
+
+  // NOTE: The removed range is replaced by the ellipsis.
+  const [removedStart, removedEnd] = removed;
+  const shift = byteLength(ellipsis) - (removedEnd - removedStart);
+  const movePos = (pos: number, isEnd: boolean) => {
+    if (pos <= removedStart) {
+      return pos;
+    }
+    if (pos >= removedEnd) {
+      return pos + shift;
+    }
+    return isEnd ? removedStart + byteLength(ellipsis) : removedStart;
+  };
+
+  return highlights.flatMap((hl) => {
+    // NOTE: highlight col is 1 origin.
+    const start = movePos(hl.col - 1, false);
+    const end = movePos(hl.col - 1 + hl.width, true);
+    return end > start ? [{ ...hl, col: start + 1, width: end - start }] : [];
+  });
+}
+
+function isGroupHeader(row: ViewRow): row is GroupHeader {
+  return !("word" in row);
+}
+
+function groupRows(
+  items: DduItem[],
+  allItems: DduItem[],
+  foldedGroups: Set<number>,
+): ViewRow[] {
+  // NOTE: The count is the number of all items in the source.
+  const counts = new Map<number, number>();
+  for (const item of allItems) {
+    counts.set(item.__sourceIndex, (counts.get(item.__sourceIndex) ?? 0) + 1);
+  }
+
+  const groups = new Map<number, DduItem[]>();
+  for (const item of items) {
+    const group = groups.get(item.__sourceIndex) ?? [];
+    group.push(item);
+    groups.set(item.__sourceIndex, group);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .flatMap(([sourceIndex, groupItems]) => {
+      const header: GroupHeader = {
+        sourceIndex,
+        sourceName: groupItems[0].__sourceName,
+        count: counts.get(sourceIndex) ?? 0,
+        folded: foldedGroups.has(sourceIndex),
+      };
+      return [header, ...(header.folded ? [] : groupItems)];
+    });
+}
+
+function byteLength(str: string): number {
+  return new TextEncoder().encode(str).length;
+}
+
+function matchedHighlights(
+  text: string,
+  input: string,
+  hlGroup: string,
+): ItemHighlight[] {
+  // NOTE: The input is space separated patterns like the matchers.
+  const chars = Array.from(text);
+  const matched = new Set<number>();
+  for (const pattern of input.split(/\s+/).filter((p) => p != "")) {
+    // Smart case
+    const ignoreCase = pattern == pattern.toLowerCase();
+    const target = ignoreCase ? chars.map((c) => c.toLowerCase()) : chars;
+    const patternChars = Array.from(
+      ignoreCase ? pattern.toLowerCase() : pattern,
+    );
+
+    // Substring match
+    let positions: number[] = [];
+    for (let i = 0; i + patternChars.length <= target.length; i++) {
+      if (patternChars.every((c, j) => target[i + j] == c)) {
+        positions = patternChars.map((_, j) => i + j);
+        break;
+      }
+    }
+
+    // Fuzzy match
+    if (positions.length == 0) {
+      let i = 0;
+      for (const c of patternChars) {
+        while (i < target.length && target[i] != c) {
+          i++;
+        }
+        if (i >= target.length) {
+          positions = [];
+          break;
+        }
+        positions.push(i++);
+      }
+    }
+
+    positions.forEach((i) => matched.add(i));
+  }
+
+  // NOTE: highlight col and width are byte index.
+  const highlights: ItemHighlight[] = [];
+  let col = 1;
+  chars.forEach((c, i) => {
+    const width = byteLength(c);
+    if (matched.has(i)) {
+      const prev = highlights[highlights.length - 1];
+      if (prev && prev.col + prev.width == col) {
+        prev.width += width;
+      } else {
+        highlights.push({
+          name: "ddu-ui-ff-matched",
+          hl_group: hlGroup,
+          col,
+          width,
+        });
+      }
+    }
+    col += width;
+  });
+
+  return highlights;
+}
+
+function selectKey(item: DduItem): string {
+  // NOTE: The selected items are identified by the source index, the
+  // buffer, the path, the line number and the word.  Because the item objects
+  // are recreated when refreshed.
+  const action = item.action as ActionData;
+  return [
+    item.__sourceIndex,
+    action?.bufNr ?? "",
+    action?.path ?? "",
+    action?.lineNr ?? "",
+    item.word,
+  ].join(":");
+}
+
 async function errorException(denops: Denops, e: unknown, message: string) {
   await denops.call(
     "ddu#util#print_error",